@@ -3,6 +3,7 @@
 declare namespace Cloudflare {
 	interface Env {
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
+		Registry: DurableObjectNamespace<import("./src/server").Registry>;
 		AI: Ai;
 	}
 }
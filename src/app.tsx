@@ -5,26 +5,143 @@ import { Card } from "@/components/card/Card";
 import { Avatar } from "@/components/avatar/Avatar";
 import { Toggle } from "@/components/toggle/Toggle";
 import { Textarea } from "@/components/textarea/Textarea";
+import { Select } from "@/components/select/Select";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
-import { Bug, Moon, Robot, Sun, Trash, PaperPlaneTilt, Stop } from "@phosphor-icons/react";
+import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
+import { SessionSettingsModal } from "@/components/session-settings/SessionSettingsModal";
+import { ScheduledJobsPanel } from "@/components/scheduled-jobs/ScheduledJobsPanel";
+import { ScheduleConfirmationCard } from "@/components/schedule-confirmation-card/ScheduleConfirmationCard";
+import { SessionSidebar } from "@/components/session-sidebar/SessionSidebar";
+import { SignInModal } from "@/components/sign-in/SignInModal";
+import { ShareModal } from "@/components/share/ShareModal";
+import { SearchModal } from "@/components/search/SearchModal";
+import { BranchSwitcher } from "@/components/branch-switcher/BranchSwitcher";
+import { DropdownMenu } from "@/components/dropdown/DropdownMenu";
+import { UndoToast } from "@/components/undo-toast/UndoToast";
+import { useModal } from "@/providers/ModalProvider";
+import { useVirtualList } from "@/hooks/useVirtualList";
+import {
+  ArrowClockwise,
+  Bug,
+  CalendarBlank,
+  DownloadSimple,
+  GearSix,
+  MagnifyingGlass,
+  Moon,
+  PencilSimple,
+  UploadSimple,
+  Robot,
+  ShareNetwork,
+  SidebarSimple,
+  Sun,
+  Trash,
+  Warning,
+  PaperPlaneTilt,
+  Stop
+} from "@phosphor-icons/react";
+import type { ToolUIPart } from "ai";
+import type {
+  BranchPoint,
+  ChatStreamEvent,
+  ConversationSummary,
+  Deletion,
+  HistoryEvent,
+  HistoryMessage,
+  Identity,
+  ParsedSchedule,
+  RetentionNotice,
+  SessionSettings,
+  SessionTitle
+} from "@/shared";
+import { DEFAULT_MODEL_ID, MODELS } from "@/models";
+import { DEFAULT_SYSTEM_PROMPT } from "@/personas";
+import { branchesOf } from "@/branches";
+import { HISTORY_PAGE, withLatestPage, withOlderPage } from "@/history";
+import { DEFAULT_RETENTION, describeRetention } from "@/retention";
+import { looksLikeSchedule } from "@/schedule-intent";
+
+type ToolView = {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  output?: unknown;
+  isError?: boolean;
+  resolved: boolean;
+  needsApproval: boolean;
+};
 
 type Msg = {
   id: string;
   role: "user" | "assistant";
   text: string;
   createdAt: string;
+  interrupted?: boolean;
+  // the reply's model call failed
+  failed?: boolean;
+  tool?: ToolView;
 };
 
+// Folds stored history into chat rows: tool results are merged into the card of their tool call.
+function toMessages(hist: HistoryMessage[]): Msg[] {
+  const results = new Map(hist.flatMap((h) => (h.role === "tool-result" ? [[h.toolCallId, h] as const] : [])));
+  return hist.flatMap((h): Msg[] => {
+    const createdAt = new Date(h.ts).toISOString();
+    if (h.role === "user" || h.role === "assistant") {
+      const text = h.content || (h.error ? "Request failed." : "");
+      return [{ id: h.id, role: h.role, text, createdAt, interrupted: h.interrupted, failed: !!h.error }];
+    }
+    if (h.role !== "tool-call") return [];
+    const result = results.get(h.toolCallId);
+    return [
+      {
+        id: h.id,
+        role: "assistant",
+        text: "",
+        createdAt,
+        tool: {
+          toolCallId: h.toolCallId,
+          toolName: h.toolName,
+          input: h.input,
+          output: result?.output,
+          isError: result?.isError,
+          resolved: !!result,
+          needsApproval: !!h.needsApproval
+        }
+      }
+    ];
+  });
+}
+
+function toToolUIPart(tool: ToolView): ToolUIPart {
+  const base = { type: `tool-${tool.toolName}`, toolCallId: tool.toolCallId, input: tool.input };
+  if (!tool.resolved) return { ...base, state: "input-available" } as ToolUIPart;
+  if (tool.isError) return { ...base, state: "output-error", errorText: String(tool.output) } as ToolUIPart;
+  return { ...base, state: "output-available", output: tool.output } as ToolUIPart;
+}
+
 function makeSessionId() {
   return "s-" + Math.random().toString(36).slice(2, 8) + "-" + Date.now().toString(36).slice(-4);
 }
 
-function readCookie(name: string): string | null {
-  const m = document.cookie.match(new RegExp("(?:^|; )" + name.replace(/[-.\w]/g, "\\$&") + "=([^;]*)"));
-  return m ? decodeURIComponent(m[1]) : null;
+async function* readEvents(res: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!res.body) return;
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      if (frame.startsWith("data: ")) yield JSON.parse(frame.slice(6)) as ChatStreamEvent;
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
 }
 
-export default function Chat() {
+export default function Chat({ identity }: { identity: Identity }) {
   const [theme, setTheme] = useState<"dark" | "light">(
     () => (localStorage.getItem("theme") as "dark" | "light") || "dark"
   );
@@ -33,12 +150,37 @@ export default function Chat() {
   const [messages, setMessages] = useState<Msg[]>([]);
   const [input, setInput] = useState("");
   const [status, setStatus] = useState<"idle" | "submitted" | "streaming">("idle");
+  const [settings, setSettings] = useState<SessionSettings>({
+    model: DEFAULT_MODEL_ID,
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    persona: "assistant",
+    timeZone: "UTC",
+    retention: DEFAULT_RETENTION
+  });
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [retention, setRetention] = useState<RetentionNotice | null>(null);
+  const [title, setTitle] = useState<SessionTitle | null>(null);
+  const [branchPoints, setBranchPoints] = useState<BranchPoint[]>([]);
+  // user message being edited in place
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  // message to scroll to once its session's messages are shown, loading older pages until it is
+  const [jumpTo, setJumpTo] = useState<{ session: string; messageId: string } | null>(null);
+  // whether entries older than the loaded ones can be fetched
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // last deletion, offered for undo until the toast goes
+  const [undo, setUndo] = useState<{ deletion: Deletion; message: string } | null>(null);
+  const [proposedSchedule, setProposedSchedule] = useState<ParsedSchedule | null>(null);
+  const [scheduleStatus, setScheduleStatus] = useState<{ parsing: boolean; error: string | null }>({
+    parsing: false,
+    error: null
+  });
+  const { openModal, closeModal } = useModal();
 
   const initialSession = useMemo(() => {
     const url = new URL(window.location.href);
     let s =
       url.searchParams.get("session") ||
-      readCookie("sid") ||
       localStorage.getItem("chat_session_id") ||
       "";
     if (!s || s === "default") {
@@ -53,17 +195,20 @@ export default function Chat() {
   }, []);
   const [session, setSession] = useState(initialSession);
 
-  const [sessions, setSessions] = useState<string[]>(() => {
-    const raw = localStorage.getItem("sessions");
-    const arr = raw ? (JSON.parse(raw) as string[]) : [];
-    const withCurrent = Array.from(new Set([initialSession, ...arr]));
-    return withCurrent.slice(0, 10);
-  });
+  const [showSidebar, setShowSidebar] = useState(() => window.innerWidth >= 768);
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    // The account's chats are no longer ours; start over in an anonymous session.
+    window.location.assign("/");
+  };
 
   const inFlightRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollWrapRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   const lastSnapshotRef = useRef<string>("");
+  const historyRef = useRef<HistoryMessage[]>([]);
 
   const isNearBottom = useCallback(() => {
     const el = scrollWrapRef.current;
@@ -89,54 +234,366 @@ export default function Chat() {
     syncUrl();
   }, [syncUrl]);
 
+  // Sessions used to be listed in localStorage only; hand them to the server-side list once.
   useEffect(() => {
-    localStorage.setItem("sessions", JSON.stringify(sessions.slice(0, 10)));
-  }, [sessions]);
+    const raw = localStorage.getItem("sessions");
+    if (!raw) return;
+    fetch("/api/sessions", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ adopt: JSON.parse(raw) })
+    }).then((res) => {
+      if (res.ok) localStorage.removeItem("sessions");
+    });
+  }, []);
+
+  const applyHistory = useCallback(
+    (hist: HistoryMessage[]) => {
+      historyRef.current = hist;
+      const mapped = toMessages(hist);
+
+      const prevSnapshot = lastSnapshotRef.current;
+      const nextSnapshot = JSON.stringify(mapped.map((m) => [m.id, m.text, !!m.interrupted, m.tool?.resolved]));
+      if (nextSnapshot !== prevSnapshot) {
+        const wasNearBottom = isNearBottom();
+        lastSnapshotRef.current = nextSnapshot;
+        setMessages((prev) => {
+          const prevLen = prev.length;
+          const nextLen = mapped.length;
+          const appended = nextLen > prevLen;
+          if (appended && wasNearBottom) {
+            queueMicrotask(() => scrollToBottom("auto"));
+          }
+          return mapped;
+        });
+      }
+    },
+    [isNearBottom, scrollToBottom]
+  );
+
+  // The latest page extends the loaded history unless that was replaced in the meantime.
+  const applyLatestPage = useCallback(
+    (latest: HistoryMessage[]) => {
+      const whole = latest.length < HISTORY_PAGE;
+      const merged = whole ? null : withLatestPage(historyRef.current, latest);
+      if (!merged) setHasMore(!whole);
+      applyHistory(merged ?? latest);
+    },
+    [applyHistory]
+  );
 
   const pullHistory = useCallback(async () => {
     if (inFlightRef.current) return;
-    const res = await fetch(`/api/history?session=${encodeURIComponent(session)}`);
+    const res = await fetch(`/api/history?session=${encodeURIComponent(session)}&limit=${HISTORY_PAGE}`);
     if (!res.ok) return;
-    const hist: Array<{ role: "user" | "assistant" | "system"; content: string; ts: number }> = await res.json();
-    const mapped = hist
-      .filter((h) => h.role === "user" || h.role === "assistant")
-      .map((h, i) => ({
-        id: `${h.role}-${i}-${h.ts}`,
-        role: h.role as "user" | "assistant",
-        text: h.content,
-        createdAt: new Date(h.ts).toISOString()
-      }));
-
-    const prevSnapshot = lastSnapshotRef.current;
-    const nextSnapshot = JSON.stringify(mapped.map((m) => [m.id, m.text]));
-    if (nextSnapshot !== prevSnapshot) {
-      const wasNearBottom = isNearBottom();
-      lastSnapshotRef.current = nextSnapshot;
-      setMessages((prev) => {
-        const prevLen = prev.length;
-        const nextLen = mapped.length;
-        const appended = nextLen > prevLen;
-        if (appended && wasNearBottom) {
-          queueMicrotask(() => scrollToBottom("auto"));
-        }
-        return mapped;
+    applyLatestPage(await res.json<HistoryMessage[]>());
+  }, [session, applyLatestPage]);
+
+  // Loads as many pages as are loaded again, after entries before the end changed.
+  const reloadHistory = useCallback(async () => {
+    if (inFlightRef.current) return;
+    const wanted = Math.max(HISTORY_PAGE, historyRef.current.length);
+    let loaded: HistoryMessage[] = [];
+    let more = true;
+    while (more && loaded.length < wanted) {
+      const params = new URLSearchParams({ session, limit: String(HISTORY_PAGE) });
+      if (loaded[0]) params.set("before", loaded[0].id);
+      const res = await fetch(`/api/history?${params}`);
+      if (!res.ok) return;
+      const page = await res.json<HistoryMessage[]>();
+      loaded = [...page, ...loaded];
+      more = page.length === HISTORY_PAGE;
+    }
+    setHasMore(more);
+    applyHistory(loaded);
+  }, [session, applyHistory]);
+
+  const loadingOlderRef = useRef(false);
+  const loadOlder = useCallback(async () => {
+    const first = historyRef.current[0];
+    if (!first || loadingOlderRef.current) return;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const params = new URLSearchParams({ session, limit: String(HISTORY_PAGE), before: first.id });
+      const res = await fetch(`/api/history?${params}`);
+      if (!res.ok) return;
+      const older = await res.json<HistoryMessage[]>();
+      // The history was replaced while this page loaded; it starts over from its own latest page.
+      if (historyRef.current[0]?.id !== first.id) return;
+      setHasMore(older.length === HISTORY_PAGE);
+      applyHistory(withOlderPage(historyRef.current, older));
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [session, applyHistory]);
+
+  const applyEvent = useCallback(
+    (event: HistoryEvent) => {
+      // While this tab streams its own reply, the final pullHistory reconciles instead.
+      if (inFlightRef.current && (event.type === "append" || event.type === "history" || event.type === "changed")) {
+        return;
+      }
+      if (event.type === "history") {
+        applyLatestPage(event.history);
+      } else if (event.type === "changed") {
+        reloadHistory();
+      } else if (event.type === "append") {
+        const known = new Set(historyRef.current.map((h) => h.id));
+        applyHistory([...historyRef.current, ...event.entries.filter((h) => !known.has(h.id))]);
+      } else if (event.type === "cleared") {
+        applyHistory([]);
+        setHasMore(false);
+        setSummary(null);
+        setTitle(null);
+        setBranchPoints([]);
+      } else if (event.type === "settings") {
+        setSettings(event.settings);
+      } else if (event.type === "summary") {
+        setSummary(event.summary);
+      } else if (event.type === "title") {
+        setTitle(event.title);
+      } else if (event.type === "branches") {
+        setBranchPoints(event.branches);
+      }
+    },
+    [applyHistory, applyLatestPage, reloadHistory]
+  );
+
+  useEffect(() => {
+    let alive = true;
+    fetch(`/api/settings?session=${encodeURIComponent(session)}`)
+      .then((res) => (res.ok ? res.json<SessionSettings>() : null))
+      .then((data) => {
+        if (alive && data) setSettings(data);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [session]);
+
+  useEffect(() => {
+    let alive = true;
+    setSummary(null);
+    fetch(`/api/summary?session=${encodeURIComponent(session)}`)
+      .then((res) => (res.ok ? res.json<ConversationSummary | null>() : null))
+      .then((data) => {
+        if (alive) setSummary(data);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [session]);
+
+  // Refreshed as messages come and go and when the policy changes, so deletions are announced ahead of the prune.
+  const retentionKey = JSON.stringify(settings.retention);
+  // biome-ignore lint/correctness/useExhaustiveDependencies: retentionKey and messages.length only trigger a refresh
+  useEffect(() => {
+    let alive = true;
+    fetch(`/api/retention?session=${encodeURIComponent(session)}`)
+      .then((res) => (res.ok ? res.json<RetentionNotice>() : null))
+      .then((data) => {
+        if (alive) setRetention(data);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [session, retentionKey, messages.length]);
+
+  useEffect(() => {
+    let alive = true;
+    setTitle(null);
+    fetch(`/api/title?session=${encodeURIComponent(session)}`)
+      .then((res) => (res.ok ? res.json<SessionTitle | null>() : null))
+      .then((data) => {
+        if (alive) setTitle(data);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [session]);
+
+  useEffect(() => {
+    let alive = true;
+    setBranchPoints([]);
+    setEditing(null);
+    fetch(`/api/branches?session=${encodeURIComponent(session)}`)
+      .then((res) => (res.ok ? res.json<BranchPoint[]>() : null))
+      .then((data) => {
+        if (alive && data) setBranchPoints(data);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [session]);
+
+  // Recomputed whenever the rendered messages change, which is when historyRef does.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: messages stands in for historyRef
+  const branches = useMemo(() => branchesOf(historyRef.current, branchPoints), [branchPoints, messages]);
+
+  useEffect(() => {
+    document.title = title ? `${title.text} · AI Chat Agent` : "AI Chat Agent";
+  }, [title]);
+
+  // The summary divider goes after the last rendered message it covers (tool results are folded into call cards).
+  const summaryAfter = useMemo(() => {
+    if (!summary) return null;
+    const order = new Map(historyRef.current.map((h, i) => [h.id, i]));
+    const upTo = order.get(summary.upTo);
+    if (upTo === undefined) return null;
+    let after: string | null = null;
+    for (const m of messages) {
+      if ((order.get(m.id) ?? Infinity) <= upTo) after = m.id;
+    }
+    return after;
+  }, [summary, messages]);
+
+  const updateSettings = async (patch: Partial<SessionSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+    const res = await fetch(`/api/settings?session=${encodeURIComponent(session)}`, {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(patch)
+    });
+    if (!res.ok) return;
+    const data = await res.json<{ ok: boolean; settings: SessionSettings }>();
+    if (data.ok) setSettings(data.settings);
+  };
+
+  const openSettings = () => {
+    openModal(
+      <SessionSettingsModal session={session} settings={settings} onSaved={setSettings} onClose={closeModal} />
+    );
+  };
+
+  // Only the messages near the viewport are rendered.
+  const messageIds = useMemo(() => messages.map((m) => m.id), [messages]);
+  const { start, end, paddingTop, paddingBottom, scrollToKey } = useVirtualList({
+    scrollRef: scrollWrapRef,
+    listRef,
+    keys: messageIds
+  });
+
+  const showMessage = useCallback(
+    (id: string, flash = false) => {
+      if (!scrollToKey(id)) return;
+      // The row is rendered once the scroll above has been handled.
+      requestAnimationFrame(() => {
+        const el = document.getElementById(`msg-${id}`);
+        el?.scrollIntoView({ behavior: "smooth", block: "center" });
+        if (!el || !flash) return;
+        el.classList.add("ring-2", "ring-[#F48120]/60", "rounded-md");
+        setTimeout(() => el.classList.remove("ring-2", "ring-[#F48120]/60", "rounded-md"), 2000);
       });
+    },
+    [scrollToKey]
+  );
+
+  useEffect(() => {
+    if (!jumpTo || jumpTo.session !== session) return;
+    if (!messages.some((m) => m.id === jumpTo.messageId)) {
+      // Older pages are loaded until the message turns up; messages pruned since are given up on.
+      if (hasMore) loadOlder();
+      else if (messages.length > 0) setJumpTo(null);
+      return;
     }
-  }, [session, isNearBottom, scrollToBottom]);
+    setJumpTo(null);
+    queueMicrotask(() => showMessage(jumpTo.messageId, true));
+  }, [jumpTo, session, messages, hasMore, loadOlder, showMessage]);
 
+  // More history is loaded as the list is scrolled near its top, and while it does not fill the view.
+  const loadOlderNearTop = useCallback(() => {
+    const el = scrollWrapRef.current;
+    if (el && hasMore && el.scrollTop < 400) loadOlder();
+  }, [hasMore, loadOlder]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: runs again once a loaded page is rendered
+  useEffect(() => {
+    loadOlderNearTop();
+  }, [loadOlderNearTop, messages]);
+
+  const openSearch = () => {
+    openModal(
+      <SearchModal
+        session={session}
+        onOpen={(hit) => {
+          closeModal();
+          setJumpTo(hit);
+          switchSession(hit.session);
+        }}
+        onClose={closeModal}
+      />
+    );
+  };
+
+  const openShare = () => {
+    openModal(<ShareModal session={session} onClose={closeModal} />);
+  };
+
+  const openJobs = () => {
+    openModal(
+      <ScheduledJobsPanel
+        session={session}
+        onShowOutput={(messageId) => setJumpTo({ session, messageId })}
+        onClose={closeModal}
+      />
+    );
+  };
+
+  // Live updates over a per-session WebSocket; polling only runs while the socket is down.
   useEffect(() => {
     let alive = true;
-    const tick = async () => {
-      if (!alive) return;
-      await pullHistory();
+    let socket: WebSocket | null = null;
+    let poll: ReturnType<typeof setInterval> | null = null;
+    let keepAlive: ReturnType<typeof setInterval> | null = null;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+
+    const startPolling = () => {
+      if (!poll) poll = setInterval(pullHistory, 5000);
     };
-    tick();
-    const t = setInterval(tick, 5000);
+    const stopPolling = () => {
+      if (poll) clearInterval(poll);
+      poll = null;
+    };
+
+    const connect = () => {
+      const proto = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${proto}//${window.location.host}/api/ws?session=${encodeURIComponent(session)}`);
+      socket.onopen = () => {
+        attempts = 0;
+        stopPolling();
+        keepAlive = setInterval(() => socket?.send("ping"), 30_000);
+      };
+      socket.onmessage = (e) => {
+        if (e.data === "pong") return;
+        applyEvent(JSON.parse(e.data) as HistoryEvent);
+      };
+      socket.onclose = () => {
+        if (keepAlive) clearInterval(keepAlive);
+        keepAlive = null;
+        if (!alive) return;
+        startPolling();
+        retry = setTimeout(connect, Math.min(30_000, 1000 * 2 ** attempts++));
+      };
+    };
+
+    pullHistory();
+    connect();
     return () => {
       alive = false;
-      clearInterval(t);
+      stopPolling();
+      if (retry) clearTimeout(retry);
+      if (keepAlive) clearInterval(keepAlive);
+      socket?.close();
     };
-  }, [pullHistory]);
+  }, [session, pullHistory, applyEvent]);
 
   useEffect(() => {
     if (theme === "dark") {
@@ -160,6 +617,17 @@ export default function Chat() {
     e.preventDefault();
     const text = input.trim();
     if (!text) return;
+    if (text.startsWith("/schedule ")) {
+      setInput("");
+      await proposeSchedule(text.slice("/schedule ".length));
+      return;
+    }
+    // Text that reads like a reminder is offered as a job; without a time in it, it is an ordinary message.
+    if (looksLikeSchedule(text)) {
+      setInput("");
+      if (await proposeSchedule(text)) return;
+      setScheduleStatus({ parsing: false, error: null });
+    }
 
     const userMsg: Msg = {
       id: `user-${Date.now()}`,
@@ -172,12 +640,20 @@ export default function Chat() {
     setStatus("submitted");
     queueMicrotask(() => scrollToBottom("smooth"));
 
+    await streamFrom("/api/chat", { text });
+  };
+
+  // Posts to a streaming endpoint and renders the assistant reply as it arrives.
+  const streamFrom = async (path: string, payload: unknown) => {
     inFlightRef.current = true;
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const res = await fetch(`/api/chat?session=${encodeURIComponent(session)}`, {
+      const res = await fetch(`${path}?session=${encodeURIComponent(session)}`, {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ text })
+        body: JSON.stringify(payload),
+        signal: controller.signal
       });
 
       if (!res.ok) {
@@ -196,87 +672,241 @@ export default function Chat() {
       }
 
       setStatus("streaming");
-      const data: {
-        ok: boolean;
-        reply?: string;
-        history?: Array<{ role: string; content: string; ts: number }>;
-      } = await res.json();
-
-      if (data.history) {
-        const mapped = data.history
-          .filter((h) => h.role === "user" || h.role === "assistant")
-          .map((h, i) => ({
-            id: `${h.role}-${i}-${h.ts}`,
-            role: h.role as "user" | "assistant",
-            text: h.content,
-            createdAt: new Date(h.ts).toISOString()
-          }));
-        setMessages(mapped);
-        queueMicrotask(() => scrollToBottom("smooth"));
-      } else if (data.reply) {
+      const replyId = `assistant-${Date.now()}`;
+      setMessages((prev) => [
+        ...prev,
+        { id: replyId, role: "assistant", text: "", createdAt: new Date().toISOString() }
+      ]);
+      queueMicrotask(() => scrollToBottom("smooth"));
+
+      let reply = "";
+      for await (const event of readEvents(res)) {
+        if (event.type === "text-delta") {
+          const wasNearBottom = isNearBottom();
+          reply += event.delta;
+          const text = reply;
+          setMessages((prev) => prev.map((m) => (m.id === replyId ? { ...m, text } : m)));
+          if (wasNearBottom) queueMicrotask(() => scrollToBottom("auto"));
+        } else if (event.type === "error") {
+          setMessages((prev) =>
+            prev.map((m) => (m.id === replyId ? { ...m, text: reply || "Request failed." } : m))
+          );
+        }
+      }
+    } catch {
+      // Stopping aborts the fetch on purpose; the server keeps the truncated reply.
+      if (!controller.signal.aborted) {
         setMessages((prev) => [
           ...prev,
           {
             id: `assistant-${Date.now()}`,
             role: "assistant",
-            text: data.reply ?? "ok",
+            text: "Network error.",
             createdAt: new Date().toISOString()
           }
         ]);
         queueMicrotask(() => scrollToBottom("smooth"));
       }
-    } catch {
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: `assistant-${Date.now()}`,
-          role: "assistant",
-          text: "Network error.",
-          createdAt: new Date().toISOString()
-        }
-      ]);
-      queueMicrotask(() => scrollToBottom("smooth"));
     } finally {
+      abortRef.current = null;
       inFlightRef.current = false;
       setStatus("idle");
       pullHistory();
     }
   };
 
-  const scheduleFollowUp = async () => {
-    const delayMs = 10_000;
-    const runAt = Date.now() + delayMs;
-    const prompt =
-      "Summarize our conversation so far in one paragraph. Start your response by stating that you are summarizing this chat so far, upon my request.";
+  const submitToolResult = async ({ toolCallId, result }: { toolCallId: string; result: string }) => {
+    if (inFlightRef.current) return;
+    setMessages((prev) =>
+      prev.map((m) => (m.tool?.toolCallId === toolCallId ? { ...m, tool: { ...m.tool, resolved: true } } : m))
+    );
+    setStatus("submitted");
+    await streamFrom("/api/tool-result", { toolCallId, result });
+  };
+
+  // Sends a new version of a past user message; the old one and its replies stay as a branch.
+  const submitEdit = async () => {
+    if (!editing || inFlightRef.current) return;
+    const text = editing.text.trim();
+    if (!text) return;
+    const { id } = editing;
+    setEditing(null);
+    setMessages((prev) => {
+      const at = prev.findIndex((m) => m.id === id);
+      const edited: Msg = { id: `user-${Date.now()}`, role: "user", text, createdAt: new Date().toISOString() };
+      return at === -1 ? prev : [...prev.slice(0, at), edited];
+    });
+    setStatus("submitted");
+    await streamFrom("/api/edit", { messageId: id, text });
+  };
+
+  const regenerate = async (id: string) => {
+    if (inFlightRef.current) return;
+    setMessages((prev) => {
+      const at = prev.findIndex((m) => m.id === id);
+      return at === -1 ? prev : prev.slice(0, at);
+    });
+    setStatus("submitted");
+    await streamFrom("/api/regenerate", { messageId: id });
+  };
 
+  const showBranch = async (id: string) => {
+    if (inFlightRef.current) return;
+    await fetch(`/api/branch?session=${encodeURIComponent(session)}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ messageId: id })
+    });
+    // The fork point may lie before the latest page.
+    await reloadHistory();
+  };
+
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+    setStatus("idle");
+  };
+
+  // Asks the server to read a request like "remind me tomorrow at 8am to review the PR";
+  // the result is shown for confirmation and only becomes a job once confirmed. False when no job could be read.
+  const proposeSchedule = async (text: string): Promise<boolean> => {
+    setProposedSchedule(null);
+    setScheduleStatus({ parsing: true, error: null });
+    try {
+      const res = await fetch(`/api/schedule/parse?session=${encodeURIComponent(session)}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ text, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+      });
+      const data = await res.json<{ ok: boolean; schedule?: ParsedSchedule; error?: string }>();
+      if (!data.ok || !data.schedule) throw new Error(data.error ?? "Could not read a time from that.");
+      setProposedSchedule(data.schedule);
+      setScheduleStatus({ parsing: false, error: null });
+      queueMicrotask(() => scrollToBottom("smooth"));
+      return true;
+    } catch (e) {
+      setScheduleStatus({ parsing: false, error: e instanceof Error ? e.message : String(e) });
+      return false;
+    }
+  };
+
+  const scheduleFromInput = async () => {
+    const text = input.trim();
+    if (!text) {
+      setScheduleStatus({
+        parsing: false,
+        error: "Type what to schedule first, e.g. “remind me tomorrow at 8am to review the PR”."
+      });
+      return;
+    }
+    setInput("");
+    await proposeSchedule(text);
+  };
+
+  const confirmSchedule = async ({ prompt, runAt, cron, timeZone }: ParsedSchedule) => {
     const res = await fetch(`/api/schedule?session=${encodeURIComponent(session)}`, {
       method: "POST",
       headers: { "content-type": "application/json" },
-      body: JSON.stringify({ runAt, prompt })
+      body: JSON.stringify(cron ? { prompt, cron, timeZone } : { prompt, runAt })
     });
+    const info = await res.json<{ ok: boolean; error?: string }>().catch(() => ({ ok: false, error: undefined }));
+    if (!info.ok) {
+      setScheduleStatus({ parsing: false, error: info.error ?? "Could not schedule that." });
+      return;
+    }
+    setProposedSchedule(null);
+    await pullHistory();
+  };
 
-    if (!res.ok) return;
+  const uploadRef = useRef<HTMLInputElement>(null);
 
-    const info: { ok: boolean } = await res.json();
-    if (info.ok) {
-      await pullHistory();
+  // Restores an exported transcript into a new session and switches to it.
+  const importTranscript = async (file: File) => {
+    const id = makeSessionId();
+    const res = await fetch(`/api/import?session=${encodeURIComponent(id)}`, {
+      method: "POST",
+      body: await file.text()
+    });
+    const data = await res
+      .json<{ ok: boolean; error?: string; dropped?: number }>()
+      .catch(() => ({ ok: false, error: undefined, dropped: 0 }));
+    if (!data.ok) {
+      window.alert(`Could not import ${file.name}: ${data.error ?? res.statusText}`);
+      return;
+    }
+    switchSession(id);
+    if (data.dropped) {
+      window.alert(`${data.dropped} messages were older than the retention period and were not imported.`);
     }
   };
 
-  const clearHistory = async () => {
-    await fetch(`/api/history?session=${encodeURIComponent(session)}`, {
+  // The conversation can be restored from the toast; scheduled jobs are deleted only when asked for.
+  const clearHistory = async (withJobs = false) => {
+    const res = await fetch(`/api/history?session=${encodeURIComponent(session)}${withJobs ? "&jobs=1" : ""}`, {
       method: "DELETE"
     });
+    const data = await res
+      .json<{ ok: boolean; deletion?: Deletion }>()
+      .catch(() => ({ ok: false, deletion: undefined }));
+    if (data.deletion) {
+      const what = `${data.deletion.count} ${data.deletion.count === 1 ? "message" : "messages"}`;
+      setUndo({ deletion: data.deletion, message: `Deleted ${what}${withJobs ? " and scheduled jobs" : ""}.` });
+    }
     setMessages([]);
+    setSummary(null);
+    setTitle(null);
+    setBranchPoints([]);
+    setHasMore(false);
     lastSnapshotRef.current = "";
+    historyRef.current = [];
   };
 
-  const startNewSession = () => {
-    const id = makeSessionId();
+  const deleteMessage = async (m: Msg) => {
+    if (inFlightRef.current) return;
+    const res = await fetch(`/api/history/${encodeURIComponent(m.id)}?session=${encodeURIComponent(session)}`, {
+      method: "DELETE"
+    });
+    const data = await res
+      .json<{ ok: boolean; deletion?: Deletion }>()
+      .catch(() => ({ ok: false, deletion: undefined }));
+    if (!data.deletion) return;
+    // A tool card stands for the call and its result.
+    applyHistory(
+      historyRef.current.filter(
+        (h) => h.id !== m.id && !(h.role === "tool-result" && h.toolCallId === m.tool?.toolCallId)
+      )
+    );
+    setUndo({ deletion: data.deletion, message: "Message deleted." });
+  };
+
+  const undoDeletion = async () => {
+    if (!undo) return;
+    setUndo(null);
+    const res = await fetch(`/api/history/restore?session=${encodeURIComponent(session)}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ deletion: undo.deletion.id })
+    });
+    if (!res.ok) {
+      window.alert("That can no longer be undone.");
+      return;
+    }
+    // Restored entries may sit anywhere in the history, so the loaded pages are fetched again.
+    await reloadHistory();
+  };
+
+  const dismissUndo = useCallback(() => setUndo(null), []);
+
+  const startNewSession = async () => {
+    const res = await fetch("/api/sessions", { method: "POST" });
+    const data = await res
+      .json<{ ok: boolean; session?: { id: string } }>()
+      .catch(() => ({ ok: false, session: undefined }));
+    const id = data.session?.id ?? makeSessionId();
     setSession(id);
-    setSessions((prev) => [id, ...prev.filter((s) => s !== id)].slice(0, 10));
     setMessages([]);
+    setHasMore(false);
     lastSnapshotRef.current = "";
+    historyRef.current = [];
     const el = document.querySelector<HTMLTextAreaElement>("textarea");
     el?.focus();
   };
@@ -285,14 +915,42 @@ export default function Chat() {
     if (!id || id === session) return;
     setSession(id);
     setMessages([]);
+    setHasMore(false);
     lastSnapshotRef.current = "";
+    historyRef.current = [];
   };
 
   return (
     <div className="h-[100vh] w-full p-4 flex justify-center items-center bg-fixed overflow-hidden">
       <HasWorkersAI />
+      {showSidebar && (
+        <SessionSidebar
+          className="h-[calc(100vh-2rem)] mr-4 shadow-xl rounded-md overflow-hidden"
+          session={session}
+          refreshKey={`${session}:${messages.length}:${status}:${title?.text ?? ""}`}
+          onSelect={switchSession}
+          onNew={startNewSession}
+          onDeleted={(id) => {
+            if (id === session) startNewSession();
+          }}
+          email={identity.email}
+          onSignIn={identity.emailSignIn ? () => openModal(<SignInModal onClose={closeModal} />) : undefined}
+          onSignOut={signOut}
+        />
+      )}
       <div className="h-[calc(100vh-2rem)] w-full mx-auto max-w-lg flex flex-col shadow-xl rounded-md overflow-hidden relative border border-neutral-300 dark:border-neutral-800">
         <div className="px-4 py-3 border-b border-neutral-300 dark:border-neutral-800 flex items-center gap-3 sticky top-0 z-10">
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9"
+            onClick={() => setShowSidebar((v) => !v)}
+            aria-label="Toggle chat list"
+          >
+            <SidebarSimple size={20} />
+          </Button>
+
           <div className="flex items-center justify-center h-8 w-8">
             <svg width="28px" height="28px" className="text-[#F48120]" data-icon="agents" aria-hidden="true">
               <title>Cloudflare Agents</title>
@@ -308,38 +966,35 @@ export default function Chat() {
 
           <div className="flex-1">
             <h2 className="font-semibold text-base">AI Chat Agent</h2>
+            {title && (
+              <p className="text-xs text-muted-foreground truncate max-w-48" title={title.text}>
+                {title.text}
+              </p>
+            )}
           </div>
 
           <div className="flex items-center gap-2 mr-2">
-            <select
-              value={session}
-              onChange={(e) => switchSession(e.target.value)}
-              className="text-xs border rounded px-2 py-1 dark:bg-neutral-900 dark:border-neutral-700"
-              aria-label="Select session"
-            >
-              {sessions.map((s) => (
-                <option key={s} value={s}>
-                  {s}
-                </option>
-              ))}
-            </select>
-
-            <Button
-              variant="ghost"
+            <Select
               size="sm"
-              shape="square"
-              className="rounded-full h-8 px-3"
-              onClick={startNewSession}
-            >
-              New Chat
-            </Button>
+              className="text-xs max-w-32"
+              options={MODELS.map((m) => ({ value: m.id, label: m.label }))}
+              value={settings.model}
+              setValue={(model) => updateSettings({ model })}
+            />
 
             <Bug size={16} />
             <Toggle toggled={showDebug} aria-label="Toggle debug mode" onClick={() => setShowDebug((v) => !v)} />
           </div>
 
-          <Button variant="ghost" size="md" shape="square" className="rounded-full h-9 w-9" onClick={toggleTheme}>
-            {theme === "dark" ? <Sun size={20} /> : <Moon size={20} />}
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9"
+            onClick={openSearch}
+            aria-label="Search messages"
+          >
+            <MagnifyingGlass size={20} />
           </Button>
 
           <Button
@@ -347,19 +1002,130 @@ export default function Chat() {
             size="md"
             shape="square"
             className="rounded-full h-9 w-9"
-            onClick={async () => {
-              await clearHistory();
-            }}
+            onClick={openSettings}
+            aria-label="Session settings"
           >
-            <Trash size={20} />
+            <GearSix size={20} />
           </Button>
 
-          <Button variant="ghost" size="md" shape="square" className="rounded-full h-9 w-9" onClick={scheduleFollowUp}>
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9"
+            onClick={openJobs}
+            aria-label="Scheduled jobs"
+          >
+            <CalendarBlank size={20} />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9"
+            onClick={openShare}
+            aria-label="Share a read-only link"
+          >
+            <ShareNetwork size={20} />
+          </Button>
+
+          <DropdownMenu
+            align="end"
+            side="bottom"
+            size="sm"
+            className="rounded-full h-9 w-9 inline-flex items-center justify-center"
+            MenuItems={[
+              { type: "title", titleContent: "Download conversation" },
+              ...(["md", "json", "jsonl"] as const).map((format) => ({
+                type: "link",
+                label: { md: "Markdown", json: "JSON", jsonl: "JSONL" }[format],
+                href: `/api/export?session=${encodeURIComponent(session)}&format=${format}`
+              }))
+            ]}
+          >
+            <DownloadSimple size={20} aria-label="Download conversation" />
+          </DropdownMenu>
+
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9"
+            onClick={() => uploadRef.current?.click()}
+            aria-label="Upload conversation"
+          >
+            <UploadSimple size={20} />
+          </Button>
+          <input
+            ref={uploadRef}
+            type="file"
+            accept=".json,.jsonl,.md,application/json,text/markdown"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importTranscript(file);
+            }}
+          />
+
+          <Button variant="ghost" size="md" shape="square" className="rounded-full h-9 w-9" onClick={toggleTheme}>
+            {theme === "dark" ? <Sun size={20} /> : <Moon size={20} />}
+          </Button>
+
+          <DropdownMenu
+            align="end"
+            side="bottom"
+            size="sm"
+            className="rounded-full h-9 w-9 inline-flex items-center justify-center"
+            MenuItems={[
+              { type: "button", label: "Delete messages", onClick: () => clearHistory() },
+              {
+                type: "button",
+                label: "Delete messages and scheduled jobs",
+                destructiveAction: true,
+                onClick: () => clearHistory(true)
+              }
+            ]}
+          >
+            <Trash size={20} aria-label="Delete conversation" />
+          </DropdownMenu>
+
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9"
+            onClick={scheduleFromInput}
+            loading={scheduleStatus.parsing}
+            aria-label="Schedule the typed request"
+            title="Schedule the typed request, e.g. “every Monday at 9:00 summarize last week”"
+          >
             🕒
           </Button>
         </div>
 
-        <div ref={scrollWrapRef} className="flex-1 overflow-y-auto p-4 space-y-4 pb-24 max-h-[calc(100vh-10rem)]">
+        {retention && (retention.policy.mode === "ephemeral" || retention.expiring > 0) && (
+          <div className="px-4 py-2 flex items-center gap-2 text-xs border-b border-neutral-300 dark:border-neutral-800 bg-[#F48120]/10">
+            <Warning size={14} className="shrink-0 text-[#F48120]" />
+            <span className="flex-1">
+              {retention.policy.mode === "ephemeral"
+                ? `Messages in this chat are ${describeRetention(retention.policy)}.`
+                : `${retention.expiring} ${retention.expiring === 1 ? "message" : "messages"} will be deleted ${
+                    retention.at ? new Date(retention.at).toLocaleString() : "soon"
+                  } (${describeRetention(retention.policy)}).`}
+            </span>
+            <button type="button" className="underline" onClick={openSettings}>
+              Change
+            </button>
+          </div>
+        )}
+
+        <div
+          ref={scrollWrapRef}
+          onScroll={loadOlderNearTop}
+          className="flex-1 overflow-y-auto p-4 space-y-4 pb-24 max-h-[calc(100vh-10rem)]"
+        >
           {messages.length === 0 && (
             <div className="h-full flex items-center justify-center">
               <Card className="p-6 max-w-md mx-auto bg-neutral-100 dark:bg-neutral-900">
@@ -374,38 +1140,143 @@ export default function Chat() {
             </div>
           )}
 
-          {messages.map((m, index) => {
-            const isUser = m.role === "user";
-            const showAvatar = index === 0 || messages[index - 1]?.role !== m.role;
-            const isScheduled = m.text.startsWith("scheduled message");
-
-            return (
-              <div key={m.id}>
-                {showDebug && <pre className="text-xs text-muted-foreground overflow-scroll">{JSON.stringify(m, null, 2)}</pre>}
-                <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
-                  <div className={`flex gap-2 max-w-[85%] ${isUser ? "flex-row-reverse" : "flex-row"}`}>
-                    {showAvatar && !isUser ? <Avatar username={"AI"} /> : !isUser && <div className="w-8" />}
-                    <div>
-                      <Card
-                        className={`p-3 rounded-md bg-neutral-100 dark:bg-neutral-900 ${
-                          isUser ? "rounded-br-none" : "rounded-bl-none border-assistant-border"
-                        } ${isScheduled ? "border-accent/50" : ""} relative`}
-                      >
-                        {isScheduled && <span className="absolute -top-3 -left-2 text-base">🕒</span>}
-                        <MemoizedMarkdown id={`${m.id}-md`} content={m.text} />
-                      </Card>
-                      <p className={`text-xs text-muted-foreground mt-1 ${isUser ? "text-right" : "text-left"}`}>
-                        {formatTime(m.createdAt)}
-                      </p>
+          {hasMore && (
+            <div className="text-center text-xs text-muted-foreground">
+              {loadingOlder ? (
+                "Loading earlier messages…"
+              ) : (
+                <button type="button" className="hover:underline" onClick={loadOlder}>
+                  Load earlier messages
+                </button>
+              )}
+            </div>
+          )}
+
+          <div ref={listRef} style={{ paddingTop, paddingBottom }}>
+            {messages.slice(start, end).map((m, i) => {
+              const index = start + i;
+              const isUser = m.role === "user";
+              const showAvatar = index === 0 || messages[index - 1]?.role !== m.role;
+              const isScheduled = m.text.startsWith("scheduled message");
+
+              return (
+                <div key={m.id} id={`msg-${m.id}`} data-key={m.id} className="pb-4">
+                  {showDebug && (
+                    <pre className="text-xs text-muted-foreground overflow-scroll">{JSON.stringify(m, null, 2)}</pre>
+                  )}
+                  <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
+                    <div className={`flex gap-2 max-w-[85%] ${isUser ? "flex-row-reverse" : "flex-row"}`}>
+                      {showAvatar && !isUser ? <Avatar username={"AI"} /> : !isUser && <div className="w-8" />}
+                      <div>
+                        {m.tool ? (
+                          <ToolInvocationCard
+                            toolUIPart={toToolUIPart(m.tool)}
+                            toolCallId={m.tool.toolCallId}
+                            needsConfirmation={m.tool.needsApproval && !m.tool.resolved}
+                            onSubmit={submitToolResult}
+                            addToolResult={(toolCallId, result) => submitToolResult({ toolCallId, result })}
+                          />
+                        ) : editing?.id === m.id ? (
+                          <div className="space-y-2 min-w-64">
+                            <Textarea
+                              className="!text-base dark:bg-neutral-900"
+                              value={editing.text}
+                              onChange={(e) => setEditing({ id: m.id, text: e.target.value })}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+                                  e.preventDefault();
+                                  submitEdit();
+                                } else if (e.key === "Escape") {
+                                  setEditing(null);
+                                }
+                              }}
+                              autoFocus
+                            />
+                            <div className="flex justify-end gap-2">
+                              <Button variant="secondary" size="sm" onClick={() => setEditing(null)}>
+                                Cancel
+                              </Button>
+                              <Button variant="primary" size="sm" disabled={!editing.text.trim()} onClick={submitEdit}>
+                                Send
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <Card
+                            className={`p-3 rounded-md bg-neutral-100 dark:bg-neutral-900 ${
+                              isUser ? "rounded-br-none" : "rounded-bl-none border-assistant-border"
+                            } ${isScheduled ? "border-accent/50" : ""} relative`}
+                          >
+                            {isScheduled && <span className="absolute -top-3 -left-2 text-base">🕒</span>}
+                            <MemoizedMarkdown id={`${m.id}-md`} content={m.text} />
+                          </Card>
+                        )}
+                        <div
+                          className={`flex items-center gap-2 text-xs text-muted-foreground mt-1 ${isUser ? "justify-end" : "justify-start"}`}
+                        >
+                          {branches[m.id] && (
+                            <BranchSwitcher
+                              branch={branches[m.id]}
+                              disabled={status !== "idle"}
+                              onSwitch={showBranch}
+                            />
+                          )}
+                          <span>
+                            {formatTime(m.createdAt)}
+                            {m.interrupted && " · stopped"}
+                            {m.failed && " · failed"}
+                          </span>
+                          {!m.tool && status === "idle" && editing?.id !== m.id && (
+                            <button
+                              type="button"
+                              className="p-0.5 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800"
+                              onClick={() => (isUser ? setEditing({ id: m.id, text: m.text }) : regenerate(m.id))}
+                              aria-label={isUser ? "Edit message" : "Regenerate reply"}
+                            >
+                              {isUser ? <PencilSimple size={12} /> : <ArrowClockwise size={12} />}
+                            </button>
+                          )}
+                          {status === "idle" && editing?.id !== m.id && (
+                            <button
+                              type="button"
+                              className="p-0.5 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800"
+                              onClick={() => deleteMessage(m)}
+                              aria-label="Delete message"
+                            >
+                              <Trash size={12} />
+                            </button>
+                          )}
+                        </div>
+                      </div>
                     </div>
                   </div>
+                  {m.id === summaryAfter && summary && (
+                    <details className="my-3 text-xs text-muted-foreground">
+                      <summary className="cursor-pointer text-center border-t border-neutral-300 dark:border-neutral-800 pt-2">
+                        Earlier messages summarized ({summary.count})
+                      </summary>
+                      <p className="mt-2 whitespace-pre-wrap">{summary.text}</p>
+                    </details>
+                  )}
                 </div>
-              </div>
-            );
-          })}
+              );
+            })}
+          </div>
+          {proposedSchedule && (
+            <ScheduleConfirmationCard
+              schedule={proposedSchedule}
+              onConfirm={confirmSchedule}
+              onCancel={() => setProposedSchedule(null)}
+            />
+          )}
+          {scheduleStatus.error && <p className="text-sm text-red-600">{scheduleStatus.error}</p>}
           <div ref={messagesEndRef} />
         </div>
 
+        {undo && (
+          <UndoToast key={undo.deletion.id} message={undo.message} onUndo={undoDeletion} onDismiss={dismissUndo} />
+        )}
+
         <form
           onSubmit={(e) => {
             e.preventDefault();
@@ -417,7 +1288,7 @@ export default function Chat() {
           <div className="flex items-center gap-2">
             <div className="flex-1 relative">
               <Textarea
-                placeholder={`Send a message to ${session}...`}
+                placeholder="Send a message, or schedule one: “remind me tomorrow at 8am to…”"
                 className="flex w-full border border-neutral-200 dark:border-neutral-700 px-3 py-2 ring-offset-background placeholder:text-neutral-500 dark:placeholder:text-neutral-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-300 dark:focus-visible:ring-neutral-700 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-neutral-900 disabled:cursor-not-allowed disabled:opacity-50 md:text-sm min-h-[24px] max-h-[calc(75dvh)] overflow-hidden resize-none rounded-2xl !text-base pb-10 dark:bg-neutral-900"
                 value={input}
                 onChange={(e) => {
@@ -440,7 +1311,7 @@ export default function Chat() {
                 {status === "submitted" || status === "streaming" ? (
                   <button
                     type="button"
-                    onClick={() => setStatus("idle")}
+                    onClick={stopGeneration}
                     className="inline-flex items-center cursor-pointer justify-center gap-2 whitespace-nowrap text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 [&_svg]:pointer-events-none [&_svg]:size-4 [&_svg]:shrink-0 bg-primary text-primary-foreground hover:bg-primary/90 rounded-full p-1.5 h-fit border border-neutral-200 dark:border-neutral-800"
                     aria-label="Stop generation"
                   >
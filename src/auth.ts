@@ -0,0 +1,116 @@
+/**
+ * Identity of the browser or account a request comes from. Owners are
+ * `anon:<random>` for a browser that has not signed in (the `sid` cookie) and
+ * `acct:<hash of the email>` after an email magic-link sign-in (the `account`
+ * cookie). Both cookies, and the magic links, are HMAC-signed with the
+ * SESSION_SECRET binding so they cannot be forged or edited.
+ */
+
+export type Account = { owner: string; email: string };
+
+// How long a magic link can be used
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+const encoder = new TextEncoder();
+const keys = new Map<string, Promise<CryptoKey>>();
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  let key = keys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+    keys.set(secret, key);
+  }
+  return key;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+export function randomToken(bytes = 18): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+export function newAnonymousOwner(): string {
+  return `anon:${randomToken()}`;
+}
+
+export async function accountOwner(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    encoder.encode(email.trim().toLowerCase())
+  );
+  return `acct:${toBase64Url(new Uint8Array(digest)).slice(0, 24)}`;
+}
+
+/** `value.signature`; the value must not contain a "." */
+export async function sign(value: string, secret: string): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(secret),
+    encoder.encode(value)
+  );
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The value of a string made by `sign`, or null if it was not signed with `secret` */
+export async function verify(
+  signed: string,
+  secret: string
+): Promise<string | null> {
+  const dot = signed.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const value = signed.slice(0, dot);
+  const signature = fromBase64Url(signed.slice(dot + 1));
+  if (!signature) return null;
+  const ok = await crypto.subtle.verify(
+    "HMAC",
+    await hmacKey(secret),
+    signature,
+    encoder.encode(value)
+  );
+  return ok ? value : null;
+}
+
+// JSON payloads are base64url-encoded so they contain no "." of their own
+export function signJson(value: unknown, secret: string): Promise<string> {
+  return sign(toBase64Url(encoder.encode(JSON.stringify(value))), secret);
+}
+
+export async function verifyJson<T>(
+  signed: string,
+  secret: string
+): Promise<T | null> {
+  const value = await verify(signed, secret);
+  const bytes = value === null ? null : fromBase64Url(value);
+  if (!bytes) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function isValidEmail(email: string): boolean {
+  return email.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
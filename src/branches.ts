@@ -0,0 +1,128 @@
+/**
+ * Alternative continuations of a conversation. The Chat keeps the branch on
+ * screen as its history; editing a user message or regenerating a reply moves
+ * everything from that message on into a `Fork` at the entry before it, so the
+ * branches can be switched back and forth like "< 2/3 >".
+ */
+import type { BranchPoint, HistoryMessage } from "./shared";
+
+// Branches kept per fork point, including the one on screen
+export const MAX_BRANCHES = 10;
+
+// Branches not on screen, each starting right after `parentId`
+export type Fork = { parentId: string | null; tails: HistoryMessage[][] };
+
+// Position of a message among the alternatives at its fork point, oldest first
+export type Branch = { index: number; count: number; ids: string[] };
+
+/** Entries to append after `history`, each linked to the one before it */
+export function linkParents(
+  history: HistoryMessage[],
+  entries: HistoryMessage[]
+): HistoryMessage[] {
+  let parentId = history.length > 0 ? history[history.length - 1].id : null;
+  return entries.map((m) => {
+    const linked = { ...m, parentId };
+    parentId = m.id;
+    return linked;
+  });
+}
+
+// Index right after the fork point, or -1 when it is not in `history`
+function startOf(history: HistoryMessage[], parentId: string | null): number {
+  if (parentId === null) return 0;
+  const at = history.findIndex((m) => m.id === parentId);
+  return at === -1 ? -1 : at + 1;
+}
+
+/**
+ * Moves `history[at]` and everything after it into the fork before it and
+ * returns the part that stays. The oldest branches go past MAX_BRANCHES.
+ */
+export function forkAt(
+  history: HistoryMessage[],
+  forks: Fork[],
+  at: number
+): { history: HistoryMessage[]; forks: Fork[] } {
+  const tail = history.slice(at);
+  if (tail.length === 0) return { history, forks };
+  const parentId = at > 0 ? history[at - 1].id : null;
+  const fork = forks.find((f) => f.parentId === parentId);
+  const tails = [...(fork?.tails ?? []), tail].slice(-(MAX_BRANCHES - 1));
+  return {
+    history: history.slice(0, at),
+    forks: [...forks.filter((f) => f !== fork), { parentId, tails }]
+  };
+}
+
+/**
+ * Puts the branch starting with entry `id` on screen; the one it replaces
+ * goes into the fork. Null when no branch starts with `id` at a fork point
+ * of `history`.
+ */
+export function switchBranch(
+  history: HistoryMessage[],
+  forks: Fork[],
+  id: string
+): { history: HistoryMessage[]; forks: Fork[] } | null {
+  const fork = forks.find((f) => f.tails.some((t) => t[0]?.id === id));
+  if (!fork) return null;
+  const at = startOf(history, fork.parentId);
+  if (at === -1) return null;
+  const chosen = fork.tails.find((t) => t[0]?.id === id) ?? [];
+  const current = history.slice(at);
+  const tails = fork.tails.filter((t) => t !== chosen);
+  if (current.length > 0) tails.push(current);
+  return {
+    history: [...history.slice(0, at), ...chosen],
+    forks: forks.flatMap((f) =>
+      f !== fork ? [f] : tails.length > 0 ? [{ ...f, tails }] : []
+    )
+  };
+}
+
+/**
+ * Drops forks that can no longer be reached: their fork point was pruned from
+ * the history and is not inside another branch either. A fork before the
+ * first entry goes once that entry's own parent has been pruned.
+ */
+export function pruneForks(history: HistoryMessage[], forks: Fork[]): Fork[] {
+  const rootPruned = !!history[0]?.parentId;
+  let kept = forks.filter((f) => f.parentId !== null || !rootPruned);
+  while (true) {
+    const ids = new Set(history.map((m) => m.id));
+    for (const m of kept.flatMap((f) => f.tails.flat())) ids.add(m.id);
+    const next = kept.filter((f) => f.parentId === null || ids.has(f.parentId));
+    if (next.length === kept.length) return kept;
+    kept = next;
+  }
+}
+
+export function branchPoints(forks: Fork[]): BranchPoint[] {
+  return forks.map((f) => ({
+    parentId: f.parentId,
+    alternatives: f.tails.map((t) => ({ id: t[0].id, ts: t[0].ts }))
+  }));
+}
+
+/** Branches of the entries on screen that have alternatives, by entry id */
+export function branchesOf(
+  history: HistoryMessage[],
+  points: BranchPoint[]
+): Record<string, Branch> {
+  const branches: Record<string, Branch> = {};
+  for (const point of points) {
+    const at = startOf(history, point.parentId);
+    const shown = at === -1 ? undefined : history[at];
+    if (!shown) continue;
+    const ids = [...point.alternatives, { id: shown.id, ts: shown.ts }]
+      .sort((a, b) => a.ts - b.ts || a.id.localeCompare(b.id))
+      .map((a) => a.id);
+    branches[shown.id] = {
+      index: ids.indexOf(shown.id),
+      count: ids.length,
+      ids
+    };
+  }
+  return branches;
+}
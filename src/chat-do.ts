@@ -1,19 +1,56 @@
-import { streamText } from "ai";
+import { generateObject, generateText, streamText, stepCountIs, type JSONValue, type ModelMessage } from "ai";
+import { getSchedulePrompt, scheduleSchema } from "agents/schedule";
 import { createWorkersAI } from "workers-ai-provider";
 import type { Ai, AiModels } from "@cloudflare/workers-types";
+import {
+  APPROVAL,
+  isTextMessage,
+  type ChatStreamEvent,
+  type ConversationSummary,
+  type Deletion,
+  type HistoryEvent,
+  type HistoryMessage,
+  type Job,
+  type ParsedSchedule,
+  type RetentionNotice,
+  type SessionSettings,
+  type SearchHit,
+  type SessionTitle,
+  type ShareLink
+} from "./shared";
+import { DEFAULT_MODEL_ID, findModel, getModel, type ModelInfo } from "./models";
+import { DEFAULT_PERSONAS, DEFAULT_SYSTEM_PROMPT, MAX_SYSTEM_PROMPT_CHARS, parsePersonas, type Persona } from "./personas";
+import { McpTools, tools, executions } from "./tools";
+import { processToolCalls } from "./utils";
+import { assertCronInterval, isValidTimeZone, nextCronRun, parseCron } from "./cron";
+import { MAX_JOB_RETRIES, PRUNE_TASK_ID, dueTasks, isIsoDate, jobTaskId, oneOffRunAt, purgeTaskId, removeTask, retryDelay, upsertTask, type Task } from "./scheduler";
+import { CONTENT_TYPES, TRANSCRIPT_FORMATS, parseTranscript, serializeTranscript, type Transcript, type TranscriptFormat } from "./transcript";
+import { activityOf, cleanTitle } from "./sessions";
+import { searchMessages, toFtsQuery } from "./search";
+import { appendMessages, clearDeletions, clearForks, clearJobs, clearMessages, clearShares, countPrunable, deleteJob, deleteShare, hasContent, evictFinishedJobs, migrate, pruneMessages, purgeMessages, readForks, readJob, readJobs, readMessagePage, readMessages, readSettings, readSharedConversation, readShares, removeDeletion, replaceMessages, restoreMessages, takeToken, trashMessages, writeDeletion, writeForks, writeJob, writeSettings, writeShare } from "./storage";
+import { branchPoints, forkAt, pruneForks, switchBranch, type Fork } from "./branches";
+import { DEFAULT_RETENTION, parseRetention, retentionLimits } from "./retention";
+import { HISTORY_PAGE } from "./history";
+import { SUMMARY_TOKENS, chunkByTokens, fitToBudget, historyBudget, pendingForSummary, toTranscript } from "./context";
 
-const MODEL_ID = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+type DOEnv = { AI?: unknown; Registry?: DurableObjectNamespace; MCP_SERVERS?: string };
+// Who this chat belongs to, taken from the headers the worker adds to every request (see chatStub in server.ts)
+type ChatMeta = { session: string; owner: string };
+// A deletion with what undoing it needs besides the messages: a cleared conversation also
+// took its branches, summary and title, and its jobs when asked to.
+type DeletionRecord = Deletion & { forks?: Fork[]; summary?: ConversationSummary; title?: SessionTitle; jobs?: Job[] };
 
-type HistoryMessage = { role: "user" | "assistant" | "system"; content: string; ts: number };
-type Job = { id: string; runAt: number; prompt: string };
-type DOEnv = { AI?: unknown };
-type Bucket = { tokens: number; last: number };
-
-const MAX_MESSAGES = 300;
-const MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
-const MAX_HISTORY_CHARS = 120_000;
+const MAX_HISTORY_PAGE = 300;
 const DAILY_MS = 24 * 60 * 60 * 1000;
 const MIN_ALARM_MS = 30_000;
+// How long an ephemeral session outlives its last tab, so a reload keeps it
+const EPHEMERAL_GRACE_MS = 60_000;
+// How long deleted messages can be restored before the alarm purges them
+const DELETION_GRACE_MS = 10 * 60 * 1000;
+const MAX_FINISHED_JOBS = 50;
+const MAX_SCHEDULE_REQUEST_CHARS = 500;
+const MAX_IMPORT_CHARS = 2_000_000;
+const MAX_SHARE_LINKS = 20;
 
 function hasAi(env: DOEnv): env is DOEnv & { AI: unknown } {
   return typeof (env as { AI?: unknown }).AI !== "undefined";
@@ -24,24 +61,45 @@ function createWorkersAIClient(env: DOEnv) {
   return createWorkersAI({ binding: (hasAi(env) ? env.AI : undefined) as unknown as Ai<AiModels> });
 }
 
+function systemPrompt(base: string, withTools: boolean): string {
+  if (!withTools) return base;
+  return `${base}
+
+${getSchedulePrompt({ date: new Date() })}
+
+If the user asks to schedule a task, use the schedule tool to schedule the task.`;
+}
+
+const SUMMARY_PROMPT =
+  "You maintain a running summary of a chat between a user and an assistant. Merge the new messages into the summary so far. Keep facts, decisions, names, numbers and open questions; drop small talk. Reply with the updated summary only, at most 200 words.";
+
+const TITLE_PROMPT =
+  "Write a title of at most six words for this chat between a user and an assistant. Reply with the title only, without quotes or a trailing period.";
+
+// Messages sent to the model when titling a session
+const TITLE_CONTEXT_MESSAGES = 4;
+
+function toolOutput(m: Extract<HistoryMessage, { role: "tool-result" }>) {
+  if (typeof m.output === "string") return { type: m.isError ? "error-text" : "text", value: m.output } as const;
+  return { type: m.isError ? "error-json" : "json", value: (m.output ?? null) as JSONValue } as const;
+}
+
+/** Converts stored history to model messages, dropping tool calls that have no result yet (and vice versa). */
+function toModelMessages(history: HistoryMessage[]): ModelMessage[] {
+  const called = new Set(history.flatMap(h => (h.role === "tool-call" ? [h.toolCallId] : [])));
+  const answered = new Set(history.flatMap(h => (h.role === "tool-result" ? [h.toolCallId] : [])));
+  return history.flatMap((h): ModelMessage[] => {
+    if (isTextMessage(h)) return h.error && !h.content ? [] : [{ role: h.role, content: h.content }];
+    if (!called.has(h.toolCallId) || !answered.has(h.toolCallId)) return [];
+    if (h.role === "tool-call") {
+      return [{ role: "assistant", content: [{ type: "tool-call", toolCallId: h.toolCallId, toolName: h.toolName, input: h.input }] }];
+    }
+    return [{ role: "tool", content: [{ type: "tool-result", toolCallId: h.toolCallId, toolName: h.toolName, output: toolOutput(h) }] }];
+  });
+}
+
 async function tokenBucket(state: DurableObjectState, key: string, ratePerMin = 30, burst = 45): Promise<boolean> {
-  const storageKey = `tb:${key}`;
-  const now = Date.now();
-  const refill = 60000 / ratePerMin;
-  const b = (await state.storage.get<Bucket>(storageKey)) ?? { tokens: burst, last: now };
-  const elapsed = now - b.last;
-  const add = Math.floor(elapsed / refill);
-  if (add > 0) {
-    b.tokens = Math.min(b.tokens + add, burst);
-    b.last = now;
-  }
-  if (b.tokens <= 0) {
-    await state.storage.put(storageKey, b, { expirationTtl: 180 });
-    return false;
-  }
-  b.tokens -= 1;
-  await state.storage.put(storageKey, b, { expirationTtl: 180 });
-  return true;
+  return takeToken(state.storage.sql, key, Date.now(), ratePerMin, burst);
 }
 
 function clientKey(req: Request): string {
@@ -53,74 +111,1018 @@ function clientKey(req: Request): string {
   return ip ? `${ip}` : `ua:${ua.slice(0, 80)}`;
 }
 
-function pruneByAge(messages: HistoryMessage[], now: number): HistoryMessage[] {
-  const cutoff = now - MAX_AGE_MS;
-  return messages.filter(m => m.ts >= cutoff);
+const encoder = new TextEncoder();
+
+/**
+ * Returns an SSE response fed by `produce`. `emit` resolves to false once the
+ * client has gone away so producers can stop early and persist what they have.
+ */
+function streamEvents(
+  state: DurableObjectState,
+  produce: (emit: (event: ChatStreamEvent) => Promise<boolean>) => Promise<void>
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  let open = true;
+  const emit = async (event: ChatStreamEvent) => {
+    if (!open) return false;
+    try {
+      await writer.write(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      return true;
+    } catch {
+      open = false;
+      return false;
+    }
+  };
+  state.waitUntil(
+    produce(emit).finally(async () => {
+      if (open) await writer.close().catch(() => {});
+    })
+  );
+  return new Response(readable, {
+    headers: { "content-type": "text/event-stream", "cache-control": "no-cache" }
+  });
 }
 
-function pruneByCount(messages: HistoryMessage[]): HistoryMessage[] {
-  if (messages.length <= MAX_MESSAGES) return messages;
-  return messages.slice(messages.length - MAX_MESSAGES);
+async function loadSettings(state: DurableObjectState): Promise<SessionSettings> {
+  const stored = readSettings(state.storage.sql);
+  return { model: DEFAULT_MODEL_ID, systemPrompt: DEFAULT_SYSTEM_PROMPT, persona: "assistant", timeZone: "UTC", retention: DEFAULT_RETENTION, ...stored };
 }
 
-function pruneByChars(messages: HistoryMessage[]): HistoryMessage[] {
-  let total = 0;
-  const out: HistoryMessage[] = [];
-  for (let i = messages.length - 1; i >= 0; i--) {
-    const m = messages[i];
-    const len = m.content.length;
-    if (total + len > MAX_HISTORY_CHARS) break;
-    out.push(m);
-    total += len;
-  }
-  out.reverse();
-  return out;
+async function loadPersonas(state: DurableObjectState): Promise<Persona[]> {
+  return (await state.storage.get<Persona[]>("personas")) ?? DEFAULT_PERSONAS;
 }
 
 async function loadHistory(state: DurableObjectState): Promise<HistoryMessage[]> {
-  return (await state.storage.get<HistoryMessage[]>("history")) ?? [];
+  return readMessages(state.storage.sql);
 }
 
-async function saveHistory(state: DurableObjectState, history: HistoryMessage[], scheduleNextPrune = false) {
-  const now = Date.now();
-  let h = pruneByAge(history, now);
-  h = pruneByCount(h);
-  h = pruneByChars(h);
-  await state.storage.put("history", h);
-  if (scheduleNextPrune) {
-    const next = new Date(now + DAILY_MS);
-    const existing = await state.storage.get<number>("nextPruneAt");
-    if (!existing || existing < next.getTime()) {
-      await state.storage.put("nextPruneAt", next.getTime());
-      const jobs = (await state.storage.get<Job[]>("jobs")) ?? [];
-      await state.storage.put("jobs", jobs);
-      await state.storage.setAlarm(next);
-    }
+async function loadJobs(state: DurableObjectState): Promise<Job[]> {
+  return readJobs(state.storage.sql);
+}
+
+/** First run of a cron expression after `after`; throws when the expression or time zone is invalid. */
+function nextRunOf(cron: string, timeZone: string, after: number): number {
+  if (!isValidTimeZone(timeZone)) throw new Error(`unknown time zone "${timeZone}"`);
+  return nextCronRun(parseCron(cron), after, timeZone);
+}
+
+/** Like nextRunOf, for a job being created or edited: also throws when the expression runs too often. */
+function firstRunOf(cron: string, timeZone: string, after: number): number {
+  assertCronInterval(parseCron(cron));
+  return nextRunOf(cron, timeZone, after);
+}
+
+/** Outcome of a finished run; recurring jobs are queued again for their next slot instead. */
+function afterRun(job: Job, now: number, outcome: Partial<Job>): Partial<Job> {
+  if (!job.cron) return outcome;
+  return { ...outcome, status: "pending", runAt: nextRunOf(job.cron, job.timeZone ?? "UTC", now) };
+}
+
+async function loadTasks(state: DurableObjectState): Promise<Task[]> {
+  const stored = await state.storage.get<Task[]>("tasks");
+  if (stored) return stored;
+  // Sessions from before the task queue: rebuild it from pending jobs and the next prune time.
+  let tasks: Task[] = [];
+  for (const job of await loadJobs(state)) {
+    if (job.status === "pending") tasks = upsertTask(tasks, { id: jobTaskId(job.id), type: "job", jobId: job.id, at: job.runAt, attempt: 0 });
   }
+  const nextPruneAt = await state.storage.get<number>("nextPruneAt");
+  if (nextPruneAt) tasks = upsertTask(tasks, { id: PRUNE_TASK_ID, type: "prune", at: nextPruneAt });
+  return tasks;
+}
+
+/** Changes the task queue and arms the alarm for its earliest task; the only place the alarm is set. */
+async function updateTasks(state: DurableObjectState, update: (tasks: Task[]) => Task[]): Promise<void> {
+  const tasks = update(await loadTasks(state));
+  await state.storage.put("tasks", tasks);
+  const head = tasks[0];
+  if (!head) {
+    await state.storage.deleteAlarm();
+  } else if ((await state.storage.getAlarm()) !== head.at) {
+    await state.storage.setAlarm(head.at);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+/** Queues the daily prune unless it is queued already; retention is left to it. */
+async function schedulePrune(state: DurableObjectState) {
+  if (!(await loadTasks(state)).some(t => t.type === "prune")) {
+    await updateTasks(state, tasks => upsertTask(tasks, { id: PRUNE_TASK_ID, type: "prune", at: Date.now() + DAILY_MS }));
+  }
+}
+
+/**
+ * Applies the session's retention policy; ephemeral sessions are wiped as a whole instead (see Chat.alarm).
+ * True when it deleted messages or branches.
+ */
+async function pruneHistory(state: DurableObjectState): Promise<boolean> {
+  const limits = retentionLimits((await loadSettings(state)).retention, Date.now());
+  const pruned = limits ? pruneMessages(state.storage.sql, limits) : 0;
+  // Branches whose fork point was pruned can no longer be switched to.
+  const forks = readForks(state.storage.sql);
+  if (forks.length === 0) return pruned > 0;
+  const reachable = pruneForks(await loadHistory(state), forks);
+  if (reachable.length === forks.length) return pruned > 0;
+  writeForks(state.storage.sql, reachable);
+  return true;
 }
 
 export class Chat {
   private state: DurableObjectState;
   private env: DOEnv;
+  private mcp: McpTools;
 
   constructor(state: DurableObjectState, env: DOEnv) {
     this.state = state;
     this.env = env;
+    this.mcp = new McpTools(env.MCP_SERVERS);
+    // Keep-alive pings are answered without waking a hibernated object.
+    this.state.setWebSocketAutoResponse(new WebSocketRequestResponsePair("ping", "pong"));
+    this.state.blockConcurrencyWhile(() => migrate(this.state.storage));
+  }
+
+  private broadcast(event: HistoryEvent) {
+    const data = JSON.stringify(event);
+    for (const ws of this.state.getWebSockets()) {
+      try {
+        ws.send(data);
+      } catch {
+        // socket is already closing; webSocketClose cleans it up
+      }
+    }
+  }
+
+  // What a tab gets when it connects or asks to sync; older pages it loads itself (GET /history?before=).
+  private latestPage(): HistoryEvent {
+    return { type: "history", history: readMessagePage(this.state.storage.sql, null, HISTORY_PAGE) };
+  }
+
+  /**
+   * Stores `entries` after the last stored message and adds them to `history`. Only inserts, so
+   * what other requests stored since `history` was read (another tab, a job's output) stays.
+   */
+  private async append(history: HistoryMessage[], entries: HistoryMessage[], scheduleNextPrune = true) {
+    const linked = appendMessages(this.state.storage.sql, entries);
+    history.push(...linked);
+    if (scheduleNextPrune) await schedulePrune(this.state);
+    this.broadcast({ type: "append", entries: linked });
+    this.state.waitUntil(this.reportActivity(history));
+  }
+
+  /**
+   * Stores a history whose end was forked off or switched to another branch. A summary that
+   * covers messages no longer on screen is dropped; it is rebuilt from this branch when needed.
+   */
+  private async replaceBranch(history: HistoryMessage[], forks: Fork[]) {
+    this.state.storage.transactionSync(() => {
+      replaceMessages(this.state.storage.sql, history);
+      writeForks(this.state.storage.sql, forks);
+    });
+    const summary = await this.state.storage.get<ConversationSummary>("summary");
+    if (summary && !history.some(m => m.id === summary.upTo)) {
+      await this.state.storage.delete("summary");
+      this.broadcast({ type: "summary", summary: null });
+    }
+    this.broadcast({ type: "changed" });
+    this.broadcast({ type: "branches", branches: branchPoints(forks) });
+    this.state.waitUntil(this.reportActivity(history));
+  }
+
+  /**
+   * Empties the conversation along with its branches, summary and title; jobs and settings stay.
+   * With a `deletion` the messages are set aside under it (see restoreMessages) instead of deleted.
+   */
+  private async wipeHistory(deletion?: string) {
+    if (deletion) trashMessages(this.state.storage.sql, deletion, null);
+    else clearMessages(this.state.storage.sql);
+    clearForks(this.state.storage.sql);
+    await this.state.storage.delete(["summary", "title"]);
+    this.broadcast({ type: "cleared" });
+    this.broadcast({ type: "title", title: null });
+    this.broadcast({ type: "branches", branches: [] });
+    this.state.waitUntil(this.reportActivity([]));
+  }
+
+  /** Tells open tabs that the daily prune took messages, which may sit in any page they loaded. */
+  private async afterPrune() {
+    this.broadcast({ type: "changed" });
+    this.broadcast({ type: "branches", branches: branchPoints(readForks(this.state.storage.sql)) });
+    this.state.waitUntil(this.reportActivity(await loadHistory(this.state)));
+  }
+
+  /**
+   * Wipes an ephemeral session once it is closed, with everything that could still show its
+   * messages: the copies kept by share links and deletions that could be undone.
+   */
+  private async wipeEphemeral() {
+    const sql = this.state.storage.sql;
+    this.state.storage.transactionSync(() => {
+      clearShares(sql);
+      clearDeletions(sql);
+    });
+    await updateTasks(this.state, tasks => tasks.filter(t => t.type !== "purge"));
+    await this.wipeHistory();
+  }
+
+  /** Records a deletion and queues its purge for when it can no longer be undone. */
+  private async addDeletion(record: DeletionRecord): Promise<Deletion> {
+    writeDeletion(this.state.storage.sql, record);
+    await updateTasks(this.state, tasks =>
+      upsertTask(tasks, { id: purgeTaskId(record.id), type: "purge", deletionId: record.id, at: record.purgeAt })
+    );
+    const { id, count, deletedAt, purgeAt } = record;
+    return { id, count, deletedAt, purgeAt };
+  }
+
+  /** Removes a deletion's record and its purge task; null when it was purged already. */
+  private async takeDeletion(id: string): Promise<DeletionRecord | null> {
+    const record = removeDeletion<DeletionRecord>(this.state.storage.sql, id);
+    if (!record) return null;
+    await updateTasks(this.state, tasks => removeTask(tasks, purgeTaskId(id)));
+    return record;
+  }
+
+  // Sockets of the tabs that have this session open
+  private openSockets(): WebSocket[] {
+    return this.state.getWebSockets().filter(ws => ws.readyState === WebSocket.OPEN);
+  }
+
+  /**
+   * The first owner to reach a new chat keeps it; false for anyone else. Chats created before
+   * cookies were signed belong to the browser's raw sid, or have no owner at all and were opened
+   * under that sid as their session id. They go only to a caller whose request carries that sid
+   * from its legacy cookie (`x-chat-legacy-sid`, see migrateLegacySessions in server.ts).
+   */
+  private async authorize(request: Request): Promise<boolean> {
+    const session = request.headers.get("x-chat-session");
+    const owner = request.headers.get("x-chat-owner");
+    if (!session || !owner) return false;
+    const meta = await this.state.storage.get<ChatMeta>("meta");
+    if (meta && /^(anon|acct):/.test(meta.owner)) return meta.owner === owner;
+    const legacySid = request.headers.get("x-chat-legacy-sid");
+    const claimable = meta ? legacySid === meta.owner : legacySid === session || !hasContent(this.state.storage.sql);
+    if (!claimable) return false;
+    await this.state.storage.put("meta", { session, owner } satisfies ChatMeta);
+    return true;
+  }
+
+  /** Updates this session's entry in the owner's session list */
+  private async reportActivity(history: HistoryMessage[]) {
+    const meta = await this.state.storage.get<ChatMeta>("meta");
+    if (!meta || !this.env.Registry) return;
+    const registry = this.env.Registry.get(this.env.Registry.idFromName(meta.owner));
+    const title = await this.state.storage.get<SessionTitle>("title");
+    try {
+      await registry.fetch(`https://registry/sessions/${encodeURIComponent(meta.session)}/activity`, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(activityOf(history, title?.text ?? null))
+      });
+    } catch (e) {
+      console.error("session registry update failed", e);
+    }
+  }
+
+  /**
+   * Single generation pipeline for chat turns, immediate schedules and alarm jobs.
+   * Only the most recent part of `history` that fits the model's token budget is sent;
+   * `prompt` is an extra user turn for this call only (it is not stored).
+   * Text, tool calls and tool results are collected into `entries` in the order they happen;
+   * a trailing partial text is flushed there even when the stream aborts or throws.
+   * `onText` receives each text delta and can return false to stop reading.
+   */
+  private async generate(
+    history: HistoryMessage[],
+    opts: {
+      prompt?: string;
+      entries?: HistoryMessage[];
+      abortSignal?: AbortSignal;
+      onText?: (delta: string) => Promise<boolean>;
+    } = {}
+  ): Promise<HistoryMessage[]> {
+    const entries = opts.entries ?? [];
+    const settings = await loadSettings(this.state);
+    const modelInfo = getModel(settings.model);
+    const withTools = modelInfo.supportsTools;
+    const base = systemPrompt(settings.systemPrompt || DEFAULT_SYSTEM_PROMPT, withTools);
+    const turn: HistoryMessage[] = opts.prompt ? [{ id: "prompt", role: "user", content: opts.prompt, ts: Date.now() }] : [];
+    const { messages, dropped } = fitToBudget([...history, ...turn], historyBudget(modelInfo, base) - SUMMARY_TOKENS);
+
+    // Turns that no longer fit are represented by the rolling summary instead.
+    let summary: ConversationSummary | null = null;
+    if (dropped.length > 0) {
+      summary = await this.updateSummary(history, dropped.length, modelInfo).catch(e => {
+        console.error("summary update failed", e);
+        return this.state.storage.get<ConversationSummary>("summary").then(s => s ?? null);
+      });
+    }
+    const system = summary ? `${base}\n\nSummary of the earlier conversation:\n${summary.text}` : base;
+
+    const makeModel = createWorkersAIClient(this.env);
+    const model = makeModel(modelInfo.id as never);
+    const allTools = withTools ? { ...tools, ...(await this.mcp.tools()) } : {};
+    const result = streamText({
+      system,
+      messages: toModelMessages(messages),
+      model,
+      abortSignal: opts.abortSignal,
+      // Tools reach this object (schedule, getSchedules, cancelSchedule) through the call context.
+      ...(withTools ? { tools: allTools, stopWhen: stepCountIs(10), experimental_context: this } : {})
+    });
+
+    let text = "";
+    const flush = () => {
+      if (text) entries.push({ id: crypto.randomUUID(), role: "assistant", content: text, ts: Date.now() });
+      text = "";
+    };
+    try {
+      for await (const part of result.fullStream) {
+        if (part.type === "abort") break;
+        if (part.type === "error") throw part.error;
+        if (part.type === "text-delta") {
+          text += part.text;
+          if (opts.onText && !(await opts.onText(part.text))) break;
+        } else if (part.type === "tool-call") {
+          flush();
+          const { toolCallId, toolName, input } = part;
+          const needsApproval = toolName in executions;
+          entries.push({
+            id: crypto.randomUUID(),
+            role: "tool-call",
+            toolCallId,
+            toolName,
+            input,
+            ...(needsApproval ? { needsApproval } : {}),
+            ts: Date.now()
+          });
+        } else if (part.type === "tool-result") {
+          const { toolCallId, toolName, output } = part;
+          entries.push({ id: crypto.randomUUID(), role: "tool-result", toolCallId, toolName, output, ts: Date.now() });
+        } else if (part.type === "tool-error") {
+          const { toolCallId, toolName, error } = part;
+          const output = error instanceof Error ? error.message : String(error);
+          entries.push({ id: crypto.randomUUID(), role: "tool-result", toolCallId, toolName, output, isError: true, ts: Date.now() });
+        }
+      }
+    } finally {
+      flush();
+    }
+    return entries;
+  }
+
+  /** Folds turns that no longer fit the context window into the session's running summary. */
+  private async updateSummary(history: HistoryMessage[], dropped: number, modelInfo: ModelInfo): Promise<ConversationSummary | null> {
+    const current = (await this.state.storage.get<ConversationSummary>("summary")) ?? null;
+    const pending = pendingForSummary(history, dropped, current ?? undefined);
+    if (pending.length === 0) return current;
+
+    const makeModel = createWorkersAIClient(this.env);
+    const model = makeModel(modelInfo.id as never);
+    let text = current?.text ?? "";
+    for (const chunk of chunkByTokens(pending, Math.floor(modelInfo.contextWindow / 2))) {
+      const result = await generateText({
+        model,
+        system: SUMMARY_PROMPT,
+        prompt: `${text ? `Summary so far:\n${text}\n\n` : ""}New messages:\n${toTranscript(chunk)}`
+      });
+      text = result.text.trim() || text;
+    }
+
+    const summary: ConversationSummary = {
+      text,
+      upTo: pending[pending.length - 1].id,
+      upToTs: pending[pending.length - 1].ts,
+      count: (current?.count ?? 0) + pending.length,
+      ts: Date.now()
+    };
+    await this.state.storage.put("summary", summary);
+    this.broadcast({ type: "summary", summary });
+    return summary;
+  }
+
+  private async setTitle(title: SessionTitle | null, history: HistoryMessage[]) {
+    if (title) await this.state.storage.put("title", title);
+    else await this.state.storage.delete("title");
+    this.broadcast({ type: "title", title });
+    await this.reportActivity(history);
+  }
+
+  /** Asks the session's model for a title from the start of the conversation. */
+  private async generateTitle(history: HistoryMessage[]): Promise<SessionTitle | null> {
+    const opening = history.filter(m => isTextMessage(m) && m.role !== "system").slice(0, TITLE_CONTEXT_MESSAGES);
+    if (opening.length === 0) return null;
+    const settings = await loadSettings(this.state);
+    const makeModel = createWorkersAIClient(this.env);
+    const result = await generateText({
+      model: makeModel(getModel(settings.model).id as never),
+      system: TITLE_PROMPT,
+      prompt: toTranscript(opening)
+    });
+    const text = cleanTitle(result.text.replace(/^["'\s]+|["'.\s]+$/g, ""));
+    if (!text) return null;
+    const title: SessionTitle = { text, source: "model" };
+    await this.setTitle(title, history);
+    return title;
+  }
+
+  // Titles the session once its first exchange is stored; a title the user set is never replaced.
+  private async titleAfterFirstExchange(history: HistoryMessage[]) {
+    if (await this.state.storage.get<SessionTitle>("title")) return;
+    const texts = history.filter(isTextMessage);
+    if (!texts.some(m => m.role === "user") || !texts.some(m => m.role === "assistant")) return;
+    try {
+      await this.generateTitle(history);
+    } catch (e) {
+      console.error("title generation failed", e);
+    }
+  }
+
+  /** Streams the next assistant turn for `history` as SSE and appends what was produced. */
+  private streamReply(request: Request, history: HistoryMessage[]): Response {
+    // Aborted either by the caller (Stop button / closed tab) or by a failed write to the client stream.
+    const abort = new AbortController();
+    request.signal.addEventListener("abort", () => abort.abort());
+
+    return streamEvents(this.state, async emit => {
+      let assistant = "";
+      let failure: string | null = null;
+      const entries: HistoryMessage[] = [];
+      try {
+        await this.generate(history, {
+          entries,
+          abortSignal: abort.signal,
+          onText: async delta => {
+            assistant += delta;
+            if (await emit({ type: "text-delta", delta })) return true;
+            abort.abort();
+            return false;
+          }
+        });
+      } catch (e: unknown) {
+        if (!abort.signal.aborted) {
+          failure = e instanceof Error ? e.message : String(e);
+          await emit({ type: "error", error: failure });
+        }
+      } finally {
+        // Persist whatever was generated; a cancelled generation keeps its truncated text and a
+        // failed one is marked with its error, so a reload shows the failure rather than a reply.
+        const interrupted = abort.signal.aborted;
+        const last = entries[entries.length - 1];
+        if (interrupted && last?.role === "assistant") {
+          entries[entries.length - 1] = { ...last, interrupted };
+        } else if (failure !== null && last?.role === "assistant") {
+          entries[entries.length - 1] = { ...last, error: failure };
+        } else if (failure !== null) {
+          entries.push({ id: crypto.randomUUID(), role: "assistant", content: "", error: failure, ts: Date.now() });
+        } else if (entries.length === 0 && !interrupted) {
+          entries.push({ id: crypto.randomUUID(), role: "assistant", content: "ok", ts: Date.now() });
+        }
+        if (entries.length > 0) await this.append(history, entries);
+      }
+      await emit({ type: "finish", reply: assistant || "ok" });
+      this.state.waitUntil(this.titleAfterFirstExchange(history));
+    });
+  }
+
+  /** Stores a job, keeping only the most recent finished jobs. */
+  private saveJob(job: Job) {
+    writeJob(this.state.storage.sql, job);
+    evictFinishedJobs(this.state.storage.sql, MAX_FINISHED_JOBS);
+  }
+
+  private async updateJob(id: string, patch: Partial<Job>) {
+    const job = readJob(this.state.storage.sql, id);
+    if (job) this.saveJob({ ...job, ...patch });
+  }
+
+  /** Queues a pending job at its `runAt`; jobs in any other state leave the queue. */
+  private async syncJobTask(job: Job, attempt = 0) {
+    const id = jobTaskId(job.id);
+    await updateTasks(this.state, tasks =>
+      job.status === "pending" ? upsertTask(tasks, { id, type: "job", jobId: job.id, at: job.runAt, attempt }) : removeTask(tasks, id)
+    );
+  }
+
+  private async addJob(runAt: number, prompt: string, recurrence?: { cron: string; timeZone: string }): Promise<Job> {
+    const job: Job = { id: crypto.randomUUID(), runAt, prompt, ...recurrence, status: "pending", createdAt: Date.now() };
+    this.saveJob(job);
+    await this.syncJobTask(job);
+    return job;
+  }
+
+  /**
+   * Turns a request like "remind me tomorrow at 8am to review the PR" into a job proposal.
+   * Times are read in `timeZone`; nothing is stored until the client posts the proposal to /schedule.
+   */
+  private async parseSchedule(text: string, timeZone: string): Promise<ParsedSchedule> {
+    const now = new Date();
+    const makeModel = createWorkersAIClient(this.env);
+    const model = makeModel(getModel((await loadSettings(this.state)).model).id as never);
+    const { object } = await generateObject({
+      model,
+      schema: scheduleSchema,
+      system: `${getSchedulePrompt({ date: now })}
+The user is in the ${timeZone} time zone, where it is now ${now.toLocaleString("en-US", { timeZone })}. Read times in that zone and give dates as ISO 8601 with the UTC offset.`,
+      prompt: text
+    });
+
+    const { description, when } = object;
+    const prompt = `Running scheduled task: ${description}`;
+    if (when.type === "cron" && when.cron) {
+      return { description, prompt, runAt: firstRunOf(when.cron, timeZone, now.getTime()), cron: when.cron, timeZone };
+    }
+    let runAt = NaN;
+    if (when.type === "scheduled" && when.date) runAt = when.date.getTime();
+    else if (when.type === "delayed" && when.delayInSeconds) runAt = now.getTime() + when.delayInSeconds * 1000;
+    if (!Number.isFinite(runAt)) throw new Error("no time found in the request");
+    if (runAt <= now.getTime()) throw new Error("that time has already passed");
+    return { description, prompt, runAt };
+  }
+
+  /**
+   * Schedules a follow-up; `when` is a date (or ISO string), a delay in seconds or a cron expression
+   * (run in the session's time zone). A time that has passed is rejected. Used by the scheduleTask tool.
+   */
+  async schedule(when: Date | number | string, description: string): Promise<Job> {
+    if (typeof when === "string" && !isIsoDate(when)) {
+      const { timeZone } = await loadSettings(this.state);
+      return this.addJob(firstRunOf(when, timeZone, Date.now()), `Running scheduled task: ${description}`, { cron: when, timeZone });
+    }
+    return this.addJob(oneOffRunAt(when, Date.now()), `Running scheduled task: ${description}`);
+  }
+
+  async getSchedules(): Promise<Job[]> {
+    return (await loadJobs(this.state)).filter(j => j.status === "pending" || j.status === "paused");
+  }
+
+  async cancelSchedule(id: string): Promise<boolean> {
+    const job = readJob(this.state.storage.sql, id);
+    if (!job || (job.status !== "pending" && job.status !== "paused")) return false;
+    deleteJob(this.state.storage.sql, id);
+    await updateTasks(this.state, tasks => removeTask(tasks, jobTaskId(id)));
+    return true;
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const method = request.method.toUpperCase();
+    // Public read of a share link's copy; the worker finds this chat through the link's token.
+    if (url.pathname.endsWith("/shared") && method === "GET") {
+      const shared = readSharedConversation(this.state.storage.sql, url.searchParams.get("share") ?? "", Date.now());
+      if (!shared) return jsonResponse({ ok: false, error: "this link was revoked or has expired" }, 404);
+      return jsonResponse(shared);
+    }
+
+    if (!(await this.authorize(request))) return jsonResponse({ ok: false, error: "forbidden" }, 403);
+
+    if (url.pathname.endsWith("/ws")) {
+      if (request.headers.get("upgrade") !== "websocket") {
+        return new Response("Expected websocket", { status: 426 });
+      }
+      const { 0: client, 1: server } = new WebSocketPair();
+      this.state.acceptWebSocket(server);
+      server.send(JSON.stringify(this.latestPage()));
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    if (url.pathname.endsWith("/settings") && method === "GET") {
+      const settings = await loadSettings(this.state);
+      return new Response(JSON.stringify(settings), { headers: { "content-type": "application/json" } });
+    }
+
+    if (url.pathname.endsWith("/settings") && method === "PUT") {
+      const body = (await request.json().catch(() => ({}))) as Partial<SessionSettings>;
+      const settings = await loadSettings(this.state);
+      if (body.model !== undefined) {
+        if (!findModel(String(body.model))) {
+          return new Response(JSON.stringify({ ok: false, error: "unknown model" }), { status: 400 });
+        }
+        settings.model = String(body.model);
+      }
+      if (body.systemPrompt !== undefined) {
+        const prompt = String(body.systemPrompt);
+        if (prompt.length > MAX_SYSTEM_PROMPT_CHARS) {
+          return new Response(JSON.stringify({ ok: false, error: "system_prompt_too_long" }), { status: 413 });
+        }
+        settings.systemPrompt = prompt;
+      }
+      if (body.timeZone !== undefined) {
+        if (!isValidTimeZone(String(body.timeZone))) {
+          return new Response(JSON.stringify({ ok: false, error: "unknown time zone" }), { status: 400 });
+        }
+        settings.timeZone = String(body.timeZone);
+      }
+      if (body.persona !== undefined) {
+        const persona = body.persona === null ? null : String(body.persona);
+        if (persona !== null && !(await loadPersonas(this.state)).some(p => p.id === persona)) {
+          return new Response(JSON.stringify({ ok: false, error: "unknown persona" }), { status: 400 });
+        }
+        settings.persona = persona;
+      }
+      // A stricter policy takes effect at the next daily prune, which the chat view announces.
+      if (body.retention !== undefined) {
+        const retention = parseRetention(body.retention);
+        if (!retention) return jsonResponse({ ok: false, error: "invalid retention" }, 400);
+        settings.retention = retention;
+      }
+      writeSettings(this.state.storage.sql, settings);
+      this.broadcast({ type: "settings", settings });
+      return new Response(JSON.stringify({ ok: true, settings }), { headers: { "content-type": "application/json" } });
+    }
+
+    if (url.pathname.endsWith("/personas") && method === "GET") {
+      const personas = await loadPersonas(this.state);
+      return new Response(JSON.stringify(personas), { headers: { "content-type": "application/json" } });
+    }
+
+    if (url.pathname.endsWith("/personas") && method === "PUT") {
+      const personas = parsePersonas(await request.json().catch(() => null));
+      if (!personas) {
+        return new Response(JSON.stringify({ ok: false, error: "invalid personas" }), { status: 400 });
+      }
+      await this.state.storage.put("personas", personas);
+      const settings = await loadSettings(this.state);
+      if (settings.persona && !personas.some(p => p.id === settings.persona)) {
+        settings.persona = null;
+        writeSettings(this.state.storage.sql, settings);
+        this.broadcast({ type: "settings", settings });
+      }
+      return new Response(JSON.stringify({ ok: true, personas }), { headers: { "content-type": "application/json" } });
+    }
+
+    // What the next prune deletes under the session's retention policy; for an ephemeral session, everything.
+    if (url.pathname.endsWith("/retention") && method === "GET") {
+      const { retention } = await loadSettings(this.state);
+      const prune = (await loadTasks(this.state)).find(t => t.type === "prune");
+      const at = retention.mode === "ephemeral" ? null : (prune?.at ?? null);
+      const limits = retentionLimits(retention, at ?? Date.now()) ?? { before: null, keep: 0 };
+      const expiring = retention.mode === "ephemeral" || at !== null ? countPrunable(this.state.storage.sql, limits) : 0;
+      return jsonResponse({ policy: retention, expiring, at } satisfies RetentionNotice);
+    }
 
+    if (url.pathname.endsWith("/summary") && method === "GET") {
+      const summary = (await this.state.storage.get<ConversationSummary>("summary")) ?? null;
+      return new Response(JSON.stringify(summary), { headers: { "content-type": "application/json" } });
+    }
+
+    // The whole history, or with `limit` the latest entries before the one with id `before`.
     if (url.pathname.endsWith("/history") && method === "GET") {
-      const history = await loadHistory(this.state);
-      return new Response(JSON.stringify(history), { headers: { "content-type": "application/json" } });
+      const limit = url.searchParams.get("limit");
+      if (limit === null) return jsonResponse(await loadHistory(this.state));
+      const count = Number(limit);
+      if (!Number.isInteger(count) || count < 1) return jsonResponse({ ok: false, error: "invalid limit" }, 400);
+      return jsonResponse(readMessagePage(this.state.storage.sql, url.searchParams.get("before"), Math.min(count, MAX_HISTORY_PAGE)));
+    }
+
+    // Messages of the branch on screen matching `q`; the session's title is added for cross-session results.
+    if (url.pathname.endsWith("/search") && method === "GET") {
+      const query = toFtsQuery(url.searchParams.get("q") ?? "");
+      if (!query) return jsonResponse({ ok: false, error: "missing q" }, 400);
+      const sql = this.state.storage.sql;
+      const meta = await this.state.storage.get<ChatMeta>("meta");
+      const title = (await this.state.storage.get<SessionTitle>("title"))?.text ?? null;
+      const hits: SearchHit[] = searchMessages(sql, query).map(hit => ({ ...hit, session: meta?.session ?? "", title }));
+      return jsonResponse(hits);
+    }
+
+    if (url.pathname.endsWith("/branches") && method === "GET") {
+      return jsonResponse(branchPoints(readForks(this.state.storage.sql)));
+    }
+
+    // Shows another branch at a fork point; `messageId` is the first entry of that branch.
+    if (url.pathname.endsWith("/branch") && method === "POST") {
+      const { messageId } = await request.json<{ messageId?: unknown }>().catch(() => ({ messageId: undefined }));
+      if (typeof messageId !== "string") return jsonResponse({ ok: false, error: "missing messageId" }, 400);
+      const switched = switchBranch(await loadHistory(this.state), readForks(this.state.storage.sql), messageId);
+      if (!switched) return jsonResponse({ ok: false, error: "no such branch" }, 404);
+      await this.replaceBranch(switched.history, switched.forks);
+      return jsonResponse({ ok: true });
     }
 
+    // Clears the conversation; it can be restored until the deletion is purged. Jobs go too only with `jobs=1`.
     if (url.pathname.endsWith("/history") && method === "DELETE") {
-      await this.state.storage.delete("history");
-      await this.state.storage.delete("jobs");
-      return new Response(JSON.stringify({ ok: true }), { headers: { "content-type": "application/json" } });
+      const sql = this.state.storage.sql;
+      const now = Date.now();
+      const record: DeletionRecord = {
+        id: crypto.randomUUID(),
+        count: (await loadHistory(this.state)).length,
+        deletedAt: now,
+        purgeAt: now + DELETION_GRACE_MS,
+        forks: readForks(this.state.storage.sql),
+        summary: await this.state.storage.get<ConversationSummary>("summary"),
+        title: await this.state.storage.get<SessionTitle>("title")
+      };
+      if (url.searchParams.get("jobs") === "1") {
+        record.jobs = readJobs(sql);
+        clearJobs(sql);
+        await updateTasks(this.state, tasks => tasks.filter(t => t.type !== "job"));
+      }
+      await this.wipeHistory(record.id);
+      return jsonResponse({ ok: true, deletion: await this.addDeletion(record) });
+    }
+
+    // Undoes a deletion that has not been purged yet. What a cleared conversation had besides its
+    // messages comes back unless the conversation has gained its own since.
+    if (url.pathname.endsWith("/history/restore") && method === "POST") {
+      const { deletion } = await request.json<{ deletion?: unknown }>().catch(() => ({ deletion: undefined }));
+      if (typeof deletion !== "string") return jsonResponse({ ok: false, error: "missing deletion" }, 400);
+      const record = await this.takeDeletion(deletion);
+      if (!record) return jsonResponse({ ok: false, error: "deletion not found or already purged" }, 404);
+      restoreMessages(this.state.storage.sql, record.id);
+      if (record.forks?.length && readForks(this.state.storage.sql).length === 0) writeForks(this.state.storage.sql, record.forks);
+      if (record.summary && !(await this.state.storage.get("summary"))) {
+        await this.state.storage.put("summary", record.summary);
+        this.broadcast({ type: "summary", summary: record.summary });
+      }
+      if (record.title && !(await this.state.storage.get("title"))) {
+        await this.state.storage.put("title", record.title);
+        this.broadcast({ type: "title", title: record.title });
+      }
+      for (const job of record.jobs ?? []) {
+        this.saveJob(job);
+        await this.syncJobTask(job);
+      }
+      const history = await loadHistory(this.state);
+      this.broadcast({ type: "changed" });
+      this.broadcast({ type: "branches", branches: branchPoints(readForks(this.state.storage.sql)) });
+      this.state.waitUntil(this.reportActivity(history));
+      return jsonResponse({ ok: true, messages: history.length });
+    }
+
+    // Deletes one entry, restorable like a cleared conversation; a tool call goes with its result.
+    const messagePath = url.pathname.match(/\/history\/([^/]+)$/);
+    if (messagePath && method === "DELETE") {
+      const messageId = decodeURIComponent(messagePath[1]);
+      const history = await loadHistory(this.state);
+      const target = history.find(m => m.id === messageId);
+      if (!target) return jsonResponse({ ok: false, error: "message not found" }, 404);
+      const ids = history
+        .filter(m => m.id === messageId || (target.role === "tool-call" && m.role === "tool-result" && m.toolCallId === target.toolCallId))
+        .map(m => m.id);
+      const now = Date.now();
+      const id = crypto.randomUUID();
+      const count = trashMessages(this.state.storage.sql, id, ids);
+      const remaining = await loadHistory(this.state);
+      this.broadcast({ type: "changed" });
+      this.state.waitUntil(this.reportActivity(remaining));
+      return jsonResponse({ ok: true, deletion: await this.addDeletion({ id, count, deletedAt: now, purgeAt: now + DELETION_GRACE_MS }) });
+    }
+
+    if (url.pathname.endsWith("/title") && method === "GET") {
+      return jsonResponse((await this.state.storage.get<SessionTitle>("title")) ?? null);
+    }
+
+    // A user-set title; null or an empty one goes back to a generated title.
+    if (url.pathname.endsWith("/title") && method === "PUT") {
+      const body = await request.json<{ title?: unknown }>().catch(() => null);
+      if (!body || (typeof body.title !== "string" && body.title !== null)) {
+        return jsonResponse({ ok: false, error: "title must be a string or null" }, 400);
+      }
+      const text = body.title === null ? null : cleanTitle(body.title);
+      const title: SessionTitle | null = text ? { text, source: "user" } : null;
+      const history = await loadHistory(this.state);
+      await this.setTitle(title, history);
+      if (!title) this.state.waitUntil(this.titleAfterFirstExchange(history));
+      return jsonResponse({ ok: true, title });
+    }
+
+    if (url.pathname.endsWith("/title") && method === "POST") {
+      const allowed = await tokenBucket(this.state, clientKey(request), 12, 20);
+      if (!allowed) return jsonResponse({ ok: false, error: "rate_limited" }, 429);
+      try {
+        const title = await this.generateTitle(await loadHistory(this.state));
+        if (!title) return jsonResponse({ ok: false, error: "nothing to title yet" }, 422);
+        return jsonResponse({ ok: true, title });
+      } catch (e) {
+        return jsonResponse({ ok: false, error: e instanceof Error ? e.message : String(e) }, 502);
+      }
+    }
+
+    if (url.pathname.endsWith("/shares") && method === "GET") {
+      return jsonResponse(readShares(this.state.storage.sql, Date.now()));
+    }
+
+    if (url.pathname.endsWith("/shares") && method === "POST") {
+      const { expiresIn } = await request.json<{ expiresIn?: unknown }>().catch(() => ({ expiresIn: undefined }));
+      if (expiresIn !== undefined && expiresIn !== null && (typeof expiresIn !== "number" || !(expiresIn > 0))) {
+        return jsonResponse({ ok: false, error: "expiresIn must be a positive number of seconds or null" }, 400);
+      }
+      const now = Date.now();
+      const sql = this.state.storage.sql;
+      if (readShares(sql, now).length >= MAX_SHARE_LINKS) return jsonResponse({ ok: false, error: `at most ${MAX_SHARE_LINKS} share links` }, 409);
+      // The link shows a copy of the conversation as it is now; its id is the random token in its address.
+      const share: ShareLink = { id: crypto.randomUUID(), createdAt: now, expiresAt: typeof expiresIn === "number" ? now + expiresIn * 1000 : null };
+      const title = (await this.state.storage.get<SessionTitle>("title"))?.text ?? null;
+      const messages = (await loadHistory(this.state)).filter(isTextMessage).filter(m => m.role !== "system");
+      this.state.storage.transactionSync(() => writeShare(sql, share, title, messages));
+      return jsonResponse({ ok: true, share });
+    }
+
+    const sharePath = url.pathname.match(/\/shares\/([^/]+)$/);
+    if (sharePath && method === "DELETE") {
+      if (!deleteShare(this.state.storage.sql, decodeURIComponent(sharePath[1]))) return jsonResponse({ ok: false, error: "not found" }, 404);
+      return jsonResponse({ ok: true });
+    }
+
+    // Hands the chat to the account its anonymous owner signed in to.
+    if (url.pathname.endsWith("/claim") && method === "POST") {
+      const { owner } = await request.json<{ owner?: unknown }>().catch(() => ({ owner: undefined }));
+      if (typeof owner !== "string" || !owner.startsWith("acct:")) return jsonResponse({ ok: false, error: "invalid owner" }, 400);
+      const meta = await this.state.storage.get<ChatMeta>("meta");
+      if (!meta) return jsonResponse({ ok: false, error: "not found" }, 404);
+      await this.state.storage.put("meta", { ...meta, owner } satisfies ChatMeta);
+      await this.reportActivity(await loadHistory(this.state));
+      return jsonResponse({ ok: true });
+    }
+
+    // Adds a session that predates the registry to its owner's list.
+    if (url.pathname.endsWith("/register") && method === "POST") {
+      const history = await loadHistory(this.state);
+      if (history.length > 0) await this.reportActivity(history);
+      return jsonResponse({ ok: true, messages: history.length });
+    }
+
+    // Removes everything; the worker has already dropped the registry entry.
+    if (url.pathname.endsWith("/session") && method === "DELETE") {
+      this.broadcast({ type: "cleared" });
+      for (const ws of this.state.getWebSockets()) ws.close(1000, "session deleted");
+      await this.state.storage.deleteAlarm();
+      await this.state.storage.deleteAll();
+      // The object may get more requests before it is evicted; they find empty tables.
+      await migrate(this.state.storage);
+      return jsonResponse({ ok: true });
+    }
+
+    if (url.pathname.endsWith("/export") && method === "GET") {
+      const format = (url.searchParams.get("format") ?? "json") as TranscriptFormat;
+      if (!TRANSCRIPT_FORMATS.includes(format)) return jsonResponse({ ok: false, error: "unknown format" }, 400);
+      const session = url.searchParams.get("session");
+      const transcript: Transcript = {
+        version: 1,
+        session,
+        exportedAt: Date.now(),
+        settings: await loadSettings(this.state),
+        messages: await loadHistory(this.state),
+        jobs: await loadJobs(this.state)
+      };
+      const filename = `chat-${(session ?? "session").replace(/[^\w.-]/g, "_")}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      return new Response(serializeTranscript(transcript, format), {
+        headers: { "content-type": CONTENT_TYPES[format], "content-disposition": `attachment; filename="${filename}"` }
+      });
+    }
+
+    if (url.pathname.endsWith("/import") && method === "POST") {
+      const key = clientKey(request);
+      const allowed = await tokenBucket(this.state, key, 12, 20);
+      if (!allowed) return jsonResponse({ ok: false, error: "rate_limited" }, 429);
+
+      const text = await request.text();
+      if (text.length > MAX_IMPORT_CHARS) return jsonResponse({ ok: false, error: "file_too_large" }, 413);
+      let transcript: Transcript;
+      try {
+        transcript = parseTranscript(text);
+      } catch (e) {
+        return jsonResponse({ ok: false, error: `invalid transcript: ${e instanceof Error ? e.message : String(e)}` }, 400);
+      }
+      if ((await loadHistory(this.state)).length > 0 && url.searchParams.get("replace") !== "1") {
+        return jsonResponse({ ok: false, error: "session is not empty" }, 409);
+      }
+
+      // Settings that do not apply here (unknown model or persona) keep this session's values.
+      const settings = await loadSettings(this.state);
+      const imported = transcript.settings;
+      if (imported.model && findModel(imported.model)) settings.model = imported.model;
+      if (imported.systemPrompt !== undefined && imported.systemPrompt.length <= MAX_SYSTEM_PROMPT_CHARS) {
+        settings.systemPrompt = imported.systemPrompt;
+        const personas = await loadPersonas(this.state);
+        settings.persona = imported.persona && personas.some(p => p.id === imported.persona) ? imported.persona : null;
+      }
+      if (imported.timeZone && isValidTimeZone(imported.timeZone)) settings.timeZone = imported.timeZone;
+      if (imported.retention) settings.retention = imported.retention;
+      writeSettings(this.state.storage.sql, settings);
+      this.broadcast({ type: "settings", settings });
+
+      await this.state.storage.delete("summary");
+      await this.state.storage.delete("title");
+      clearForks(this.state.storage.sql);
+      replaceMessages(this.state.storage.sql, transcript.messages);
+      await schedulePrune(this.state);
+      await pruneHistory(this.state);
+      const history = await loadHistory(this.state);
+      this.broadcast({ type: "changed" });
+      this.broadcast({ type: "summary", summary: null });
+      this.broadcast({ type: "title", title: null });
+      this.broadcast({ type: "branches", branches: [] });
+      this.state.waitUntil(this.titleAfterFirstExchange(history).then(() => this.reportActivity(history)));
+
+      // Jobs keep their record; ones whose time passed while exported are not run late.
+      const now = Date.now();
+      const jobs = transcript.jobs.map((job): Job => {
+        if (job.status === "running") return { ...job, status: "failed", finishedAt: now, error: "interrupted by export" };
+        if (job.status !== "pending" || job.runAt > now) return job;
+        if (job.cron) return { ...job, runAt: nextRunOf(job.cron, job.timeZone ?? "UTC", now) };
+        return { ...job, status: "failed", finishedAt: now, error: "missed: imported after its run time" };
+      });
+      clearJobs(this.state.storage.sql);
+      for (const job of jobs) writeJob(this.state.storage.sql, job);
+      evictFinishedJobs(this.state.storage.sql, MAX_FINISHED_JOBS);
+      await updateTasks(this.state, tasks => {
+        let queue: Task[] = tasks.filter(t => t.type !== "job");
+        for (const j of jobs) {
+          if (j.status === "pending") queue = upsertTask(queue, { id: jobTaskId(j.id), type: "job", jobId: j.id, at: j.runAt, attempt: 0 });
+        }
+        return queue;
+      });
+
+      return jsonResponse({ ok: true, messages: history.length, dropped: transcript.messages.length - history.length, jobs: jobs.length });
+    }
+
+    if (url.pathname.endsWith("/schedule") && method === "GET") {
+      return jsonResponse(await loadJobs(this.state));
+    }
+
+    if (url.pathname.endsWith("/schedule/parse") && method === "POST") {
+      const key = clientKey(request);
+      const allowed = await tokenBucket(this.state, key, 12, 20);
+      if (!allowed) return jsonResponse({ ok: false, error: "rate_limited" }, 429);
+
+      const body = (await request.json().catch(() => ({}))) as Partial<{ text: unknown; timeZone: unknown }>;
+      const text = typeof body.text === "string" ? body.text.trim() : "";
+      if (!text || text.length > MAX_SCHEDULE_REQUEST_CHARS) return jsonResponse({ ok: false, error: "invalid text" }, 400);
+      const timeZone = typeof body.timeZone === "string" && isValidTimeZone(body.timeZone) ? body.timeZone : (await loadSettings(this.state)).timeZone;
+      try {
+        const schedule = await this.parseSchedule(text, timeZone);
+        return jsonResponse({ ok: true, schedule });
+      } catch (e) {
+        return jsonResponse({ ok: false, error: e instanceof Error ? e.message : String(e) }, 422);
+      }
+    }
+
+    const jobPath = url.pathname.match(/\/schedule\/([^/]+)$/);
+    if (jobPath) {
+      const jobId = decodeURIComponent(jobPath[1]);
+      const job = readJob(this.state.storage.sql, jobId);
+      if (!job) return jsonResponse({ ok: false, error: "job not found" }, 404);
+
+      if (method === "GET") return jsonResponse(job);
+
+      if (method === "PATCH") {
+        if (job.status !== "pending" && job.status !== "paused") return jsonResponse({ ok: false, error: `job is ${job.status}` }, 409);
+        const body = (await request.json().catch(() => ({}))) as Partial<{
+          runAt: unknown;
+          prompt: unknown;
+          cron: unknown;
+          timeZone: unknown;
+          paused: unknown;
+        }>;
+        const now = Date.now();
+        const patch: Partial<Job> = {};
+        if (body.runAt !== undefined) {
+          const runAt = Number(body.runAt);
+          if (!Number.isFinite(runAt)) return jsonResponse({ ok: false, error: "invalid runAt" }, 400);
+          patch.runAt = runAt;
+        }
+        if (body.prompt !== undefined) {
+          if (typeof body.prompt !== "string" || !body.prompt.trim()) return jsonResponse({ ok: false, error: "invalid prompt" }, 400);
+          patch.prompt = body.prompt;
+        }
+        if (body.cron !== undefined || body.timeZone !== undefined) {
+          const cron = String(body.cron ?? job.cron ?? "");
+          const timeZone = String(body.timeZone ?? job.timeZone ?? (await loadSettings(this.state)).timeZone);
+          try {
+            patch.runAt = firstRunOf(cron, timeZone, now);
+          } catch (e) {
+            return jsonResponse({ ok: false, error: e instanceof Error ? e.message : String(e) }, 400);
+          }
+          patch.cron = cron;
+          patch.timeZone = timeZone;
+        }
+        if (body.paused !== undefined) {
+          if (typeof body.paused !== "boolean") return jsonResponse({ ok: false, error: "invalid paused" }, 400);
+          patch.status = body.paused ? "paused" : "pending";
+        }
+        // Editing or resuming a job starts its retries over.
+        const updated = { ...job, ...patch, attempts: undefined };
+        // A recurring job resumed after its slot passed waits for the next one rather than firing at once.
+        if (updated.status === "pending" && updated.cron && updated.runAt < now) {
+          updated.runAt = nextRunOf(updated.cron, updated.timeZone ?? "UTC", now);
+        }
+        this.saveJob(updated);
+        await this.syncJobTask(updated);
+        return jsonResponse({ ok: true, job: updated });
+      }
+
+      if (method === "DELETE") {
+        // A running job cannot be stopped; finished ones may be removed from the audit list.
+        if (job.status === "running") return jsonResponse({ ok: false, error: "job is running" }, 409);
+        deleteJob(this.state.storage.sql, jobId);
+        await updateTasks(this.state, tasks => removeTask(tasks, jobTaskId(jobId)));
+        return jsonResponse({ ok: true });
+      }
     }
 
     if (url.pathname.endsWith("/schedule") && method === "POST") {
@@ -133,7 +1135,32 @@ export class Chat {
         });
       }
 
-      const body = (await request.json().catch(() => ({}))) as Partial<{ runAt: number; prompt: string }>;
+      const body = (await request.json().catch(() => ({}))) as Partial<{ runAt: number; prompt: string; cron: string; timeZone: string }>;
+
+      if (body.cron !== undefined) {
+        const prompt = String(body.prompt ?? "");
+        const cron = String(body.cron);
+        const timeZone = String(body.timeZone ?? (await loadSettings(this.state)).timeZone);
+        if (!prompt) return jsonResponse({ ok: false, error: "invalid prompt" }, 400);
+        let runAt: number;
+        try {
+          runAt = firstRunOf(cron, timeZone, Date.now());
+        } catch (e) {
+          return jsonResponse({ ok: false, error: e instanceof Error ? e.message : String(e) }, 400);
+        }
+        const { id } = await this.addJob(runAt, prompt, { cron, timeZone });
+        const history = await loadHistory(this.state);
+        await this.append(history, [
+          {
+            id: crypto.randomUUID(),
+            role: "assistant",
+            content: `scheduled message: "${prompt}" will run on \`${cron}\` (${timeZone}), first at ${new Date(runAt).toISOString()}`,
+            ts: Date.now()
+          }
+        ]);
+        return jsonResponse({ ok: true, id, mode: "recurring", runAt });
+      }
+
       const runAt = Number(body.runAt);
       const prompt = String(body.prompt ?? "");
       if (!Number.isFinite(runAt) || !prompt) {
@@ -145,34 +1172,94 @@ export class Chat {
 
       if (delta < MIN_ALARM_MS) {
         const history = await loadHistory(this.state);
-        const makeModel = createWorkersAIClient(this.env);
-        const model = makeModel(MODEL_ID as never);
-        const result = await streamText({
-          system: "You are a concise, helpful assistant.",
-          messages: [...history.map(h => ({ role: h.role, content: h.content })), { role: "user", content: prompt }],
-          model
-        });
-        let assistant = "";
-        for await (const chunk of result.textStream) assistant += chunk;
-        history.push({ role: "assistant", content: assistant || "ok", ts: Date.now() });
-        await saveHistory(this.state, history, true);
+        const entries = await this.generate(history, { prompt });
+        if (entries.length === 0) entries.push({ id: crypto.randomUUID(), role: "assistant", content: "ok", ts: Date.now() });
+        await this.append(history, entries);
         return new Response(JSON.stringify({ ok: true, mode: "immediate" }), { headers: { "content-type": "application/json" } });
       }
 
-      const id = crypto.randomUUID();
-      const jobs = (await this.state.storage.get<Job[]>("jobs")) ?? [];
-      jobs.push({ id, runAt, prompt });
-      await this.state.storage.put("jobs", jobs);
-      await this.state.storage.setAlarm(new Date(runAt));
+      const { id } = await this.addJob(runAt, prompt);
 
       const history = await loadHistory(this.state);
       const secs = Math.max(1, Math.round(delta / 1000));
-      history.push({ role: "assistant", content: `scheduled message: A summary of this chat will be sent in ${secs} seconds :)`, ts: Date.now() });
-      await saveHistory(this.state, history, true);
+      await this.append(history, [
+        {
+          id: crypto.randomUUID(),
+          role: "assistant",
+          content: `scheduled message: "${prompt}" will run in ${secs} seconds`,
+          ts: Date.now()
+        }
+      ]);
 
       return new Response(JSON.stringify({ ok: true, id, mode: "scheduled" }), { headers: { "content-type": "application/json" } });
     }
 
+    // Replaces a past user message with a new version and answers it; the old version and
+    // everything after it stay available as a branch.
+    if (url.pathname.endsWith("/edit") && method === "POST") {
+      const allowed = await tokenBucket(this.state, clientKey(request), 30, 45);
+      if (!allowed) return jsonResponse({ ok: false, error: "rate_limited" }, 429);
+      const body = await request.json<{ messageId?: unknown; text?: unknown }>().catch(() => null);
+      const userText = typeof body?.text === "string" ? body.text.trim() : "";
+      if (!userText) return jsonResponse({ ok: false, error: "missing text" }, 400);
+      if (userText.length > 4000) return jsonResponse({ ok: false, error: "text_too_long" }, 413);
+
+      const history = await loadHistory(this.state);
+      const at = history.findIndex(m => m.id === body?.messageId && m.role === "user");
+      if (at === -1) return jsonResponse({ ok: false, error: "no such user message" }, 404);
+      const forked = forkAt(history, readForks(this.state.storage.sql), at);
+      await this.replaceBranch(forked.history, forked.forks);
+      await this.append(forked.history, [{ id: crypto.randomUUID(), role: "user", content: userText, ts: Date.now() }]);
+      return this.streamReply(request, forked.history);
+    }
+
+    // Answers again from the point of an assistant message; the earlier answer stays as a branch.
+    if (url.pathname.endsWith("/regenerate") && method === "POST") {
+      const allowed = await tokenBucket(this.state, clientKey(request), 30, 45);
+      if (!allowed) return jsonResponse({ ok: false, error: "rate_limited" }, 429);
+      const { messageId } = await request.json<{ messageId?: unknown }>().catch(() => ({ messageId: undefined }));
+
+      const history = await loadHistory(this.state);
+      const at = history.findIndex(m => m.id === messageId && m.role === "assistant");
+      if (at === -1) return jsonResponse({ ok: false, error: "no such assistant message" }, 404);
+      const forked = forkAt(history, readForks(this.state.storage.sql), at);
+      await this.replaceBranch(forked.history, forked.forks);
+      return this.streamReply(request, forked.history);
+    }
+
+    if (url.pathname.endsWith("/tool-result") && method === "POST") {
+      const key = clientKey(request);
+      const allowed = await tokenBucket(this.state, key, 30, 45);
+      if (!allowed) {
+        return new Response(JSON.stringify({ ok: false, error: "rate_limited" }), {
+          status: 429,
+          headers: { "content-type": "application/json" }
+        });
+      }
+
+      const body = (await request.json().catch(() => ({}))) as Partial<{ toolCallId: string; result: string }>;
+      const toolCallId = String(body.toolCallId ?? "");
+      const result = String(body.result ?? "");
+      if (!toolCallId || (result !== APPROVAL.YES && result !== APPROVAL.NO)) {
+        return new Response(JSON.stringify({ ok: false, error: "invalid toolCallId or result" }), { status: 400 });
+      }
+
+      const history = await loadHistory(this.state);
+      const results = await processToolCalls({
+        history,
+        decisions: { [toolCallId]: result },
+        messages: toModelMessages(history),
+        executions
+      });
+      if (results.length === 0) {
+        return new Response(JSON.stringify({ ok: false, error: "no pending tool call" }), { status: 409 });
+      }
+      await this.append(history, results);
+
+      // Continue the conversation now that the model can see the tool result.
+      return this.streamReply(request, history);
+    }
+
     if (method === "POST") {
       const key = clientKey(request);
       const allowed = await tokenBucket(this.state, key, 30, 45);
@@ -193,72 +1280,91 @@ export class Chat {
       }
 
       const history = await loadHistory(this.state);
-      history.push({ role: "user", content: userText, ts: Date.now() });
-
-      const makeModel = createWorkersAIClient(this.env);
-      const model = makeModel(MODEL_ID as never);
-
-      const result = await streamText({
-        system: "You are a concise, helpful assistant.",
-        messages: history.map(h => ({ role: h.role, content: h.content })),
-        model
-      });
-
-      let assistant = "";
-      for await (const chunk of result.textStream) assistant += chunk;
-
-      history.push({ role: "assistant", content: assistant || "ok", ts: Date.now() });
-      await saveHistory(this.state, history, true);
+      await this.append(history, [{ id: crypto.randomUUID(), role: "user", content: userText, ts: Date.now() }]);
 
-      return new Response(JSON.stringify({ ok: true, reply: assistant || "ok", history }), {
-        headers: { "content-type": "application/json" }
-      });
+      return this.streamReply(request, history);
     }
 
     return new Response("Not found", { status: 404 });
   }
 
-  async alarm(): Promise<void> {
-    const now = Date.now();
-    const jobs = (await this.state.storage.get<Job[]>("jobs")) ?? [];
-    const due = jobs.filter(j => j.runAt <= now);
-    const future = jobs.filter(j => j.runAt > now);
+  /**
+   * Runs one due job. A failed model call is retried with backoff (the job stays pending with
+   * the error) until MAX_JOB_RETRIES, then the job fails; recurring jobs move on to their next slot.
+   */
+  private async runJob(task: Extract<Task, { type: "job" }>) {
+    const job = readJob(this.state.storage.sql, task.jobId);
+    // "running" means an earlier alarm was cut off mid-run; its task stayed queued, so run it again.
+    if (!job || (job.status !== "pending" && job.status !== "running")) {
+      await updateTasks(this.state, tasks => removeTask(tasks, task.id));
+      return;
+    }
+    await this.updateJob(job.id, { status: "running", startedAt: Date.now() });
 
-    if (due.length > 0) {
+    let outcome: Partial<Job>;
+    try {
       const history = await loadHistory(this.state);
-      const makeModel = createWorkersAIClient(this.env);
-      const model = makeModel(MODEL_ID as never);
-
-      for (const job of due) {
-        const result = await streamText({
-          system: "You are a concise, helpful assistant.",
-          messages: [...history.map(h => ({ role: h.role, content: h.content })), { role: "user", content: job.prompt }],
-          model
-        });
-        let assistant = "";
-        for await (const chunk of result.textStream) assistant += chunk;
-        history.push({ role: "assistant", content: assistant || "ok", ts: Date.now() });
+      const produced = await this.generate(history, { prompt: job.prompt });
+      if (produced.length === 0) produced.push({ id: crypto.randomUUID(), role: "assistant", content: "ok", ts: Date.now() });
+      await this.append(history, produced, false);
+      outcome = afterRun(job, Date.now(), { status: "done", finishedAt: Date.now(), outputMessageId: produced[produced.length - 1].id, error: undefined, attempts: undefined });
+    } catch (e) {
+      console.error("scheduled job failed", job.id, e);
+      const error = e instanceof Error ? e.message : String(e);
+      const attempt = task.attempt + 1;
+      if (attempt <= MAX_JOB_RETRIES) {
+        const retry = { ...job, status: "pending" as const, runAt: Date.now() + retryDelay(attempt), attempts: attempt, error };
+        await this.updateJob(job.id, retry);
+        await this.syncJobTask(retry, attempt);
+        return;
       }
-      await saveHistory(this.state, history, false);
+      outcome = afterRun(job, Date.now(), { status: "failed", finishedAt: Date.now(), error, attempts: undefined });
     }
+    await this.updateJob(job.id, outcome);
+    await this.syncJobTask({ ...job, ...outcome });
+  }
 
-    const nextPruneAt = (await this.state.storage.get<number>("nextPruneAt")) ?? 0;
-    if (now >= nextPruneAt) {
-      const history = await loadHistory(this.state);
-      await saveHistory(this.state, history, false);
-      const next = now + DAILY_MS;
-      await this.state.storage.put("nextPruneAt", next);
-      await this.state.storage.setAlarm(new Date(next));
-    } else if (future.length > 0) {
-      const next = Math.min(nextPruneAt || Infinity, Math.min(...future.map(j => j.runAt)));
-      await this.state.storage.put("jobs", future);
-      await this.state.storage.setAlarm(new Date(next));
-    } else if (nextPruneAt) {
-      await this.state.storage.setAlarm(new Date(nextPruneAt));
-    } else {
-      const next = now + DAILY_MS;
-      await this.state.storage.put("nextPruneAt", next);
-      await this.state.storage.setAlarm(new Date(next));
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    for (const task of dueTasks(await loadTasks(this.state), now)) {
+      try {
+        if (task.type === "job") {
+          await this.runJob(task);
+        } else if (task.type === "purge") {
+          await this.takeDeletion(task.deletionId);
+          purgeMessages(this.state.storage.sql, task.deletionId);
+        } else {
+          // An ephemeral session goes once no tab has it open; one reopened in the meantime is kept.
+          if ((await loadSettings(this.state)).retention.mode !== "ephemeral") {
+            if (await pruneHistory(this.state)) await this.afterPrune();
+          } else if (this.openSockets().length === 0) {
+            await this.wipeEphemeral();
+          }
+          await updateTasks(this.state, tasks => upsertTask(tasks, { ...task, at: Date.now() + DAILY_MS }));
+        }
+      } catch (e) {
+        // The task stays queued and is tried again later instead of being lost.
+        console.error("scheduled task failed", task.id, e);
+        await updateTasks(this.state, tasks =>
+          tasks.some(t => t.id === task.id) ? upsertTask(tasks, { ...task, at: Date.now() + retryDelay(1) }) : tasks
+        );
+      }
     }
+    // Re-arm for whatever is earliest now, including tasks added while the due ones ran.
+    await updateTasks(this.state, tasks => tasks);
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+    if (message === "sync") ws.send(JSON.stringify(this.latestPage()));
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    ws.close(code, reason);
+    if (this.openSockets().some(s => s !== ws) || (await loadSettings(this.state)).retention.mode !== "ephemeral") return;
+    await updateTasks(this.state, tasks => upsertTask(tasks, { id: PRUNE_TASK_ID, type: "prune", at: Date.now() + EPHEMERAL_GRACE_MS }));
+  }
+
+  async webSocketError(ws: WebSocket) {
+    ws.close(1011, "error");
   }
 }
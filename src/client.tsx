@@ -1,14 +1,38 @@
 import "./styles.css";
 import { createRoot } from "react-dom/client";
 import App from "./app";
+import { SharedConversation } from "@/components/shared-conversation/SharedConversation";
 import { Providers } from "@/providers";
+import type { Identity } from "@/shared";
 
 const root = createRoot(document.getElementById("app")!);
+const shareToken = new URL(window.location.href).searchParams.get("share");
+const shell =
+  "bg-neutral-50 text-base text-neutral-900 antialiased transition-colors selection:bg-blue-700 selection:text-white dark:bg-neutral-950 dark:text-neutral-100";
 
-root.render(
-  <Providers>
-    <div className="bg-neutral-50 text-base text-neutral-900 antialiased transition-colors selection:bg-blue-700 selection:text-white dark:bg-neutral-950 dark:text-neutral-100">
-      <App />
+if (shareToken) {
+  // Share links are public: no identity and none of the session UI.
+  root.render(
+    <div className={shell}>
+      <SharedConversation token={shareToken} />
     </div>
-  </Providers>
-);
+  );
+} else {
+  startApp();
+}
+
+// Session requests need the sid cookie, which this response sets on a first visit.
+function startApp() {
+  fetch("/api/auth/me")
+    .then((res) => (res.ok ? res.json<Identity>() : null))
+    .catch(() => null)
+    .then((identity) => {
+      root.render(
+        <Providers>
+          <div className={shell}>
+            <App identity={identity ?? { email: null, emailSignIn: false }} />
+          </div>
+        </Providers>
+      );
+    });
+}
@@ -0,0 +1,40 @@
+import { CaretLeft, CaretRight } from "@phosphor-icons/react";
+import type { Branch } from "@/branches";
+
+type BranchSwitcherProps = {
+  branch: Branch;
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+};
+
+/** "< 2/3 >" between the versions of an edited or regenerated message */
+export function BranchSwitcher({
+  branch,
+  disabled,
+  onSwitch
+}: BranchSwitcherProps) {
+  const { index, count, ids } = branch;
+  return (
+    <span className="inline-flex items-center gap-0.5 tabular-nums">
+      <button
+        type="button"
+        className="p-0.5 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800 disabled:opacity-40"
+        disabled={disabled || index === 0}
+        onClick={() => onSwitch(ids[index - 1])}
+        aria-label="Previous version"
+      >
+        <CaretLeft size={12} />
+      </button>
+      {index + 1}/{count}
+      <button
+        type="button"
+        className="p-0.5 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800 disabled:opacity-40"
+        disabled={disabled || index === count - 1}
+        onClick={() => onSwitch(ids[index + 1])}
+        aria-label="Next version"
+      >
+        <CaretRight size={12} />
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { CalendarBlank } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import type { ParsedSchedule } from "@/shared";
+
+interface ScheduleConfirmationCardProps {
+  schedule: ParsedSchedule;
+  onConfirm: (schedule: ParsedSchedule) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function ScheduleConfirmationCard({
+  schedule,
+  onConfirm,
+  onCancel
+}: ScheduleConfirmationCardProps) {
+  const [saving, setSaving] = useState(false);
+  const runAt = new Date(schedule.runAt).toLocaleString();
+
+  return (
+    <Card className="p-4 my-3 w-full max-w-[500px] rounded-md bg-neutral-100 dark:bg-neutral-900">
+      <div className="flex items-center gap-2">
+        <div className="bg-[#F48120]/10 p-1.5 rounded-full flex-shrink-0">
+          <CalendarBlank size={16} className="text-[#F48120]" />
+        </div>
+        <h4 className="font-medium flex-1">Schedule this?</h4>
+      </div>
+
+      <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Task</dt>
+        <dd>{schedule.description}</dd>
+        {schedule.cron ? (
+          <>
+            <dt className="text-muted-foreground">Repeats</dt>
+            <dd>
+              <code>{schedule.cron}</code> ({schedule.timeZone})
+            </dd>
+            <dt className="text-muted-foreground">First run</dt>
+            <dd>{runAt}</dd>
+          </>
+        ) : (
+          <>
+            <dt className="text-muted-foreground">When</dt>
+            <dd>{runAt}</dd>
+          </>
+        )}
+      </dl>
+
+      <div className="flex gap-2 justify-end mt-3">
+        <Button variant="secondary" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          loading={saving}
+          onClick={async () => {
+            setSaving(true);
+            try {
+              await onConfirm(schedule);
+            } finally {
+              setSaving(false);
+            }
+          }}
+        >
+          Confirm
+        </Button>
+      </div>
+    </Card>
+  );
+}
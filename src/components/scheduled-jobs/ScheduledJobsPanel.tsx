@@ -0,0 +1,322 @@
+import { useCallback, useEffect, useState } from "react";
+import { ArrowClockwise, Plus } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Textarea } from "@/components/textarea/Textarea";
+import type { Job, JobStatus } from "@/shared";
+
+type ScheduledJobsPanelProps = {
+  session: string;
+  onShowOutput: (messageId: string) => void;
+  onClose: () => void;
+};
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  pending: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+  paused:
+    "bg-neutral-200 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300",
+  running:
+    "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  done: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200"
+};
+
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+type Draft = {
+  prompt: string;
+  runAt: string;
+  cron: string;
+  timeZone: string;
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(ts: number) {
+  const d = new Date(ts);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+export function ScheduledJobsPanel({
+  session,
+  onShowOutput,
+  onClose
+}: ScheduledJobsPanelProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // id of the job being edited, or "new" for a new recurring job
+  const [editing, setEditing] = useState<(Draft & { id: string }) | null>(null);
+  const query = `session=${encodeURIComponent(session)}`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/schedule?${query}`);
+      if (!res.ok) throw new Error("Could not load scheduled jobs.");
+      setJobs(await res.json<Job[]>());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const request = async (id: string, init: RequestInit) => {
+    setError(null);
+    const res = await fetch(
+      `/api/schedule/${encodeURIComponent(id)}?${query}`,
+      init
+    );
+    const data = await res.json<{ ok: boolean; error?: string }>();
+    if (!data.ok) setError(data.error ?? "Request failed.");
+    await load();
+    return data.ok;
+  };
+
+  const remove = (id: string) => request(id, { method: "DELETE" });
+
+  const setPaused = (id: string, paused: boolean) =>
+    request(id, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ paused })
+    });
+
+  const startEdit = (job: Job) =>
+    setEditing({
+      id: job.id,
+      prompt: job.prompt,
+      runAt: toLocalInput(job.runAt),
+      cron: job.cron ?? "",
+      timeZone: job.timeZone ?? BROWSER_TIME_ZONE
+    });
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const { id, prompt, cron, timeZone } = editing;
+    if (id === "new") {
+      setError(null);
+      const res = await fetch(`/api/schedule?${query}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ prompt, cron, timeZone })
+      });
+      const data = await res.json<{ ok: boolean; error?: string }>();
+      if (!data.ok) {
+        setError(data.error ?? "Could not create the job.");
+        return;
+      }
+      setEditing(null);
+      await load();
+      return;
+    }
+    const runAt = new Date(editing.runAt).getTime();
+    if (!cron && !Number.isFinite(runAt)) {
+      setError("Pick a valid time.");
+      return;
+    }
+    const ok = await request(id, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(
+        cron ? { prompt, cron, timeZone } : { prompt, runAt }
+      )
+    });
+    if (ok) setEditing(null);
+  };
+
+  const draftFields = (draft: Draft & { id: string }, recurring: boolean) => (
+    <>
+      {recurring ? (
+        <div className="flex gap-2">
+          <Input
+            size="sm"
+            className="flex-1"
+            initialValue={draft.cron}
+            placeholder="0 9 * * 1-5"
+            aria-label="Cron expression"
+            onValueChange={(cron) => setEditing({ ...draft, cron })}
+          />
+          <Input
+            size="sm"
+            className="flex-1"
+            initialValue={draft.timeZone}
+            aria-label="Time zone"
+            onValueChange={(timeZone) => setEditing({ ...draft, timeZone })}
+          />
+        </div>
+      ) : (
+        <Input
+          size="sm"
+          type="datetime-local"
+          initialValue={draft.runAt}
+          aria-label="Run at"
+          onValueChange={(runAt) => setEditing({ ...draft, runAt })}
+        />
+      )}
+      <Textarea
+        value={draft.prompt}
+        rows={3}
+        aria-label="Prompt"
+        onChange={(e) => setEditing({ ...draft, prompt: e.target.value })}
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" size="sm" onClick={() => setEditing(null)}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={saveEdit}>
+          Save
+        </Button>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="space-y-4 max-h-[75vh] overflow-y-auto pr-1">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-lg">Scheduled jobs</h3>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              setEditing({
+                id: "new",
+                prompt: "",
+                runAt: "",
+                cron: "0 9 * * 1-5",
+                timeZone: BROWSER_TIME_ZONE
+              })
+            }
+          >
+            <Plus size={14} /> Recurring
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            aria-label="Refresh jobs"
+            loading={loading}
+            onClick={load}
+          >
+            <ArrowClockwise size={14} />
+          </Button>
+        </div>
+      </div>
+
+      {editing?.id === "new" && (
+        <div className="space-y-2 rounded-md border border-neutral-200 dark:border-neutral-800 p-2 text-sm">
+          {draftFields(editing, true)}
+        </div>
+      )}
+
+      {!loading && jobs.length === 0 && editing?.id !== "new" && (
+        <p className="text-sm text-muted-foreground">
+          Nothing scheduled in this session.
+        </p>
+      )}
+
+      {jobs.map((job) => (
+        <div
+          key={job.id}
+          className="space-y-2 rounded-md border border-neutral-200 dark:border-neutral-800 p-2 text-sm"
+        >
+          <div className="flex items-center gap-2">
+            <span
+              className={`rounded px-1.5 py-0.5 text-xs font-medium ${STATUS_CLASSES[job.status]}`}
+            >
+              {job.status}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {job.status === "pending" && "next "}
+              {new Date(job.runAt).toLocaleString()}
+            </span>
+            {job.cron && (
+              <code className="ml-auto text-xs text-muted-foreground">
+                {job.cron} · {job.timeZone}
+              </code>
+            )}
+          </div>
+
+          {editing?.id === job.id ? (
+            draftFields(editing, !!job.cron)
+          ) : (
+            <p className="whitespace-pre-wrap break-words">{job.prompt}</p>
+          )}
+
+          {job.error && (
+            <p className="text-xs text-red-600">
+              {job.attempts ? `Retry ${job.attempts} after: ` : ""}
+              {job.error}
+            </p>
+          )}
+
+          {editing?.id !== job.id && (
+            <div className="flex justify-end gap-2">
+              {(job.status === "pending" || job.status === "paused") && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPaused(job.id, job.status === "pending")}
+                  >
+                    {job.status === "pending" ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEdit(job)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => remove(job.id)}
+                  >
+                    Cancel job
+                  </Button>
+                </>
+              )}
+              {job.outputMessageId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    onShowOutput(job.outputMessageId as string);
+                    onClose();
+                  }}
+                >
+                  View output
+                </Button>
+              )}
+              {(job.status === "done" || job.status === "failed") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(job.id)}
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button variant="secondary" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
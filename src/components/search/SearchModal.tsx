@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { MagnifyingGlass } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Select } from "@/components/select/Select";
+import type { SearchHit, SearchPage } from "@/shared";
+
+type SearchModalProps = {
+  session: string;
+  onOpen: (hit: SearchHit) => void;
+  onClose: () => void;
+};
+
+const SCOPES = [
+  { value: "session", label: "This chat" },
+  { value: "all", label: "All chats" }
+];
+
+export function SearchModal({ session, onOpen, onClose }: SearchModalProps) {
+  const [query, setQuery] = useState("");
+  const [scope, setScope] = useState("session");
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  // offset of the chats an "all chats" search has not looked at yet
+  const [next, setNext] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounced like the sidebar search; a stale response is dropped.
+  useEffect(() => {
+    setNext(null);
+    if (!query.trim()) {
+      setHits(null);
+      return;
+    }
+    let alive = true;
+    const params = new URLSearchParams({ q: query });
+    if (scope === "session") params.set("session", session);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?${params}`);
+        if (!res.ok) throw new Error("Search failed.");
+        const page: SearchPage =
+          scope === "session"
+            ? { hits: await res.json<SearchHit[]>(), next: null }
+            : await res.json<SearchPage>();
+        if (alive) {
+          setHits(page.hits);
+          setNext(page.next);
+          setError(null);
+        }
+      } catch (e) {
+        if (alive) setError(e instanceof Error ? e.message : String(e));
+      }
+    }, 300);
+    return () => {
+      alive = false;
+      clearTimeout(timer);
+    };
+  }, [query, scope, session]);
+
+  // Chats are searched a page at a time, most recently active first.
+  const searchMore = async () => {
+    if (next === null) return;
+    setLoadingMore(true);
+    try {
+      const params = new URLSearchParams({ q: query, offset: String(next) });
+      const res = await fetch(`/api/search?${params}`);
+      if (!res.ok) throw new Error("Search failed.");
+      const page = await res.json<SearchPage>();
+      setHits((prev) => [...(prev ?? []), ...page.hits]);
+      setNext(page.next);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-lg">Search messages</h3>
+      <div className="flex items-center gap-2">
+        <Input
+          size="sm"
+          className="flex-1"
+          placeholder="Words to find"
+          aria-label="Search messages"
+          initialValue={query}
+          onValueChange={setQuery}
+          preText={<MagnifyingGlass size={14} />}
+        />
+        <Select size="sm" options={SCOPES} value={scope} setValue={setScope} />
+      </div>
+
+      <ul className="max-h-96 overflow-y-auto space-y-1">
+        {hits?.length === 0 && (
+          <li className="text-sm text-muted-foreground">
+            No matching messages.
+          </li>
+        )}
+        {hits?.map((hit) => (
+          <li key={`${hit.session}:${hit.messageId}`}>
+            <button
+              type="button"
+              className="w-full text-left rounded-md p-2 text-sm hover:bg-neutral-100 dark:hover:bg-neutral-900"
+              onClick={() => onOpen(hit)}
+            >
+              <div className="text-xs text-muted-foreground">
+                {scope === "all" && `${hit.title ?? "New chat"} · `}
+                {hit.role === "user" ? "You" : "Assistant"} ·{" "}
+                {new Date(hit.ts).toLocaleString()}
+              </div>
+              <div className="line-clamp-3">
+                {hit.snippet.map((part, i) =>
+                  part.match ? (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: parts never move
+                    <mark key={i} className="bg-[#F48120]/30 rounded-sm">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: parts never move
+                    <span key={i}>{part.text}</span>
+                  )
+                )}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {next !== null && (
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={loadingMore}
+          onClick={searchMore}
+        >
+          {loadingMore ? "Searching…" : "Search older chats"}
+        </Button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button variant="secondary" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Label } from "@/components/label/Label";
+import { Select } from "@/components/select/Select";
+import { Textarea } from "@/components/textarea/Textarea";
+import { MAX_SYSTEM_PROMPT_CHARS, type Persona } from "@/personas";
+import {
+  DEFAULT_RETENTION_DAYS,
+  DEFAULT_RETENTION_MESSAGES
+} from "@/retention";
+import type { RetentionPolicy, SessionSettings } from "@/shared";
+
+type SessionSettingsModalProps = {
+  session: string;
+  settings: SessionSettings;
+  onSaved: (settings: SessionSettings) => void;
+  onClose: () => void;
+};
+
+const CUSTOM = "__custom__";
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const RETENTION_MODES = [
+  {
+    value: "default",
+    label: `Default (${DEFAULT_RETENTION_DAYS} days, latest ${DEFAULT_RETENTION_MESSAGES})`
+  },
+  { value: "days", label: "Delete after some days" },
+  { value: "messages", label: "Keep the latest messages" },
+  { value: "forever", label: "Keep forever" },
+  { value: "ephemeral", label: "Delete when closed" }
+];
+// Amount a mode starts with when picked
+const RETENTION_AMOUNTS: Record<string, string> = {
+  days: "14",
+  messages: "300"
+};
+
+function retentionAmount(policy: RetentionPolicy): string {
+  if (policy.mode === "days") return String(policy.days);
+  if (policy.mode === "messages") return String(policy.count);
+  return "";
+}
+
+function toRetention(mode: string, amount: string): RetentionPolicy {
+  if (mode === "days") return { mode, days: Number(amount) };
+  if (mode === "messages") return { mode, count: Number(amount) };
+  if (mode === "default" || mode === "ephemeral") return { mode };
+  return { mode: "forever" };
+}
+
+export function SessionSettingsModal({
+  session,
+  settings,
+  onSaved,
+  onClose
+}: SessionSettingsModalProps) {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [persona, setPersona] = useState<string | null>(settings.persona);
+  const [systemPrompt, setSystemPrompt] = useState(settings.systemPrompt);
+  const [timeZone, setTimeZone] = useState(settings.timeZone);
+  const [retentionMode, setRetentionMode] = useState<string>(
+    settings.retention.mode
+  );
+  const [amount, setAmount] = useState(retentionAmount(settings.retention));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const query = `session=${encodeURIComponent(session)}`;
+
+  useEffect(() => {
+    let alive = true;
+    fetch(`/api/personas?${query}`)
+      .then((res) => (res.ok ? res.json<Persona[]>() : []))
+      .then((data) => {
+        if (alive) setPersonas(data);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [query]);
+
+  const choosePersona = (id: string) => {
+    if (id === CUSTOM) {
+      setPersona(null);
+      return;
+    }
+    const preset = personas.find((p) => p.id === id);
+    if (!preset) return;
+    setPersona(preset.id);
+    setSystemPrompt(preset.prompt);
+  };
+
+  const updatePersona = (id: string, patch: Partial<Persona>) => {
+    setPersonas((prev) =>
+      prev.map((p) => (p.id === id ? { ...p, ...patch } : p))
+    );
+  };
+
+  const addPersona = () => {
+    const id = `persona-${Date.now().toString(36)}`;
+    setPersonas((prev) => [
+      ...prev,
+      { id, name: "New persona", prompt: systemPrompt }
+    ]);
+  };
+
+  const chooseRetention = (mode: string) => {
+    setRetentionMode(mode);
+    setAmount(
+      mode === settings.retention.mode
+        ? retentionAmount(settings.retention)
+        : (RETENTION_AMOUNTS[mode] ?? "")
+    );
+  };
+
+  const removePersona = (id: string) => {
+    setPersonas((prev) => prev.filter((p) => p.id !== id));
+    if (persona === id) setPersona(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const personasRes = await fetch(`/api/personas?${query}`, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(personas)
+      });
+      if (!personasRes.ok) throw new Error("Could not save personas.");
+
+      const settingsRes = await fetch(`/api/settings?${query}`, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          systemPrompt,
+          persona,
+          timeZone,
+          retention: toRetention(retentionMode, amount)
+        })
+      });
+      const data = await settingsRes.json<{
+        ok: boolean;
+        settings?: SessionSettings;
+        error?: string;
+      }>();
+      if (!data.ok || !data.settings)
+        throw new Error(data.error ?? "Could not save settings.");
+      onSaved(data.settings);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-h-[75vh] overflow-y-auto pr-1">
+      <h3 className="font-semibold text-lg">Session settings</h3>
+
+      <Label title="Persona">
+        <Select
+          size="sm"
+          options={[
+            ...personas.map((p) => ({ value: p.id, label: p.name })),
+            { value: CUSTOM, label: "Custom" }
+          ]}
+          value={persona ?? CUSTOM}
+          setValue={choosePersona}
+        />
+      </Label>
+
+      <Label title="System prompt">
+        <Textarea
+          value={systemPrompt}
+          maxLength={MAX_SYSTEM_PROMPT_CHARS}
+          rows={5}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+        />
+      </Label>
+
+      <Label title="Time zone for recurring jobs">
+        <div className="flex items-center gap-2">
+          <Input
+            size="sm"
+            className="flex-1"
+            initialValue={timeZone}
+            placeholder="UTC"
+            onValueChange={setTimeZone}
+          />
+          {timeZone !== BROWSER_TIME_ZONE && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setTimeZone(BROWSER_TIME_ZONE)}
+            >
+              Use {BROWSER_TIME_ZONE}
+            </Button>
+          )}
+        </div>
+      </Label>
+
+      <Label title="Message retention">
+        <div className="flex items-center gap-2">
+          <Select
+            size="sm"
+            options={RETENTION_MODES}
+            value={retentionMode}
+            setValue={chooseRetention}
+          />
+          {(retentionMode === "days" || retentionMode === "messages") && (
+            <Input
+              size="sm"
+              className="w-24"
+              type="number"
+              min={1}
+              initialValue={amount}
+              aria-label={retentionMode === "days" ? "Days" : "Messages"}
+              onValueChange={setAmount}
+            />
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Messages outside the policy are deleted by the daily cleanup, which
+          the chat announces beforehand. Ephemeral chats are deleted a minute
+          after their last tab closes.
+        </p>
+      </Label>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">Persona presets</h4>
+          <Button variant="ghost" size="sm" onClick={addPersona}>
+            <Plus size={14} /> Add
+          </Button>
+        </div>
+        {personas.map((p) => (
+          <div
+            key={p.id}
+            className="space-y-2 rounded-md border border-neutral-200 dark:border-neutral-800 p-2"
+          >
+            <div className="flex items-center gap-2">
+              <Input
+                size="sm"
+                className="flex-1"
+                initialValue={p.name}
+                aria-label="Persona name"
+                onValueChange={(name) => updatePersona(p.id, { name })}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                shape="square"
+                aria-label={`Remove ${p.name}`}
+                onClick={() => removePersona(p.id)}
+              >
+                <Trash size={14} />
+              </Button>
+            </div>
+            <Textarea
+              value={p.prompt}
+              maxLength={MAX_SYSTEM_PROMPT_CHARS}
+              rows={3}
+              aria-label={`${p.name} prompt`}
+              onChange={(e) => updatePersona(p.id, { prompt: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" loading={saving} onClick={save}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Archive,
+  MagnifyingGlass,
+  PencilSimple,
+  Plus,
+  PushPin,
+  PushPinSlash,
+  Sparkle,
+  Trash
+} from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { DropdownMenu } from "@/components/dropdown/DropdownMenu";
+import { Input } from "@/components/input/Input";
+import { cn } from "@/lib/utils";
+import { displayTitle } from "@/sessions";
+import type { SessionInfo } from "@/shared";
+
+type SessionSidebarProps = {
+  className?: string;
+  session: string;
+  // reloads the list when it changes (new messages, another session)
+  refreshKey: string;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  // signed-in email, null when anonymous
+  email: string | null;
+  // hidden when the deployment has no email sign-in
+  onSignIn?: () => void;
+  onSignOut: () => void;
+};
+
+function relativeTime(ts: number) {
+  const minutes = Math.round((Date.now() - ts) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(ts).toLocaleDateString();
+}
+
+export function SessionSidebar({
+  className,
+  session,
+  refreshKey,
+  onSelect,
+  onNew,
+  onDeleted,
+  email,
+  onSignIn,
+  onSignOut
+}: SessionSidebarProps) {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [query, setQuery] = useState("");
+  const [archived, setArchived] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams({ q: query });
+    if (archived) params.set("archived", "1");
+    try {
+      const res = await fetch(`/api/sessions?${params}`);
+      if (!res.ok) throw new Error("Could not load sessions.");
+      setSessions(await res.json<SessionInfo[]>());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [query, archived]);
+
+  // Debounced so typing a search and bursts of messages cause one request;
+  // the chat also reports its activity to the registry a moment after saving.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refreshKey only triggers a reload
+  useEffect(() => {
+    const timer = setTimeout(load, 400);
+    return () => clearTimeout(timer);
+  }, [load, refreshKey]);
+
+  const send = async (url: string, init: RequestInit) => {
+    const res = await fetch(url, init);
+    const data = await res.json<{ ok: boolean; error?: string }>();
+    if (!data.ok) setError(data.error ?? "Request failed.");
+    await load();
+    return data.ok;
+  };
+
+  const sessionUrl = (id: string) => `/api/sessions/${encodeURIComponent(id)}`;
+  // titles are kept by each session's Chat
+  const titleUrl = (id: string) =>
+    `/api/title?session=${encodeURIComponent(id)}`;
+
+  const patch = (id: string, body: Partial<SessionInfo>) =>
+    send(sessionUrl(id), {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body)
+    });
+
+  const remove = async (s: SessionInfo) => {
+    if (!window.confirm(`Delete "${displayTitle(s)}" and all its messages?`)) {
+      return;
+    }
+    if (await send(sessionUrl(s.id), { method: "DELETE" })) onDeleted(s.id);
+  };
+
+  const saveRename = async () => {
+    if (!renaming) return;
+    // cleared first: Enter and the blur that follows would both save
+    setRenaming(null);
+    await send(titleUrl(renaming.id), {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ title: renaming.title.trim() || null })
+    });
+  };
+
+  return (
+    <aside
+      className={cn(
+        "w-64 shrink-0 flex flex-col border border-neutral-300 dark:border-neutral-800",
+        className
+      )}
+    >
+      <div className="p-3 space-y-2 border-b border-neutral-300 dark:border-neutral-800">
+        <Button
+          variant="secondary"
+          size="sm"
+          className="w-full justify-center"
+          onClick={onNew}
+        >
+          <Plus size={14} /> New chat
+        </Button>
+        <Input
+          size="sm"
+          className="w-full"
+          placeholder="Search chats"
+          aria-label="Search chats"
+          initialValue={query}
+          onValueChange={(value) => setQuery(value)}
+          preText={<MagnifyingGlass size={14} />}
+        />
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.length === 0 && (
+          <li className="text-xs text-muted-foreground p-2">
+            {query ? "No matching chats." : "No chats yet."}
+          </li>
+        )}
+        {sessions.map((s) => (
+          <li
+            key={s.id}
+            className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm ${
+              s.id === session
+                ? "bg-neutral-200 dark:bg-neutral-800"
+                : "hover:bg-neutral-100 dark:hover:bg-neutral-900"
+            }`}
+          >
+            {renaming?.id === s.id ? (
+              <input
+                // biome-ignore lint/a11y/noAutofocus: the field appears on request
+                autoFocus
+                className="flex-1 min-w-0 bg-transparent border-b border-neutral-400 outline-none text-sm"
+                value={renaming.title}
+                aria-label="Chat title"
+                onChange={(e) =>
+                  setRenaming({ id: s.id, title: e.target.value })
+                }
+                onBlur={saveRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveRename();
+                  if (e.key === "Escape") setRenaming(null);
+                }}
+              />
+            ) : (
+              <button
+                type="button"
+                className="flex-1 min-w-0 text-left"
+                onClick={() => onSelect(s.id)}
+              >
+                <div className="flex items-center gap-1">
+                  {s.pinned && <PushPin size={12} className="shrink-0" />}
+                  <span className="truncate">{displayTitle(s)}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {relativeTime(s.lastActivity)} · {s.messageCount} messages
+                </div>
+              </button>
+            )}
+            <DropdownMenu
+              align="end"
+              side="bottom"
+              size="sm"
+              className="opacity-0 group-hover:opacity-100 focus:opacity-100"
+              MenuItems={[
+                {
+                  type: "button",
+                  label: "Rename",
+                  icon: <PencilSimple />,
+                  onClick: () =>
+                    setRenaming({ id: s.id, title: displayTitle(s) })
+                },
+                {
+                  type: "button",
+                  label: "Regenerate title",
+                  icon: <Sparkle />,
+                  onClick: () => send(titleUrl(s.id), { method: "POST" })
+                },
+                {
+                  type: "button",
+                  label: s.pinned ? "Unpin" : "Pin",
+                  icon: s.pinned ? <PushPinSlash /> : <PushPin />,
+                  onClick: () => patch(s.id, { pinned: !s.pinned })
+                },
+                {
+                  type: "button",
+                  label: s.archived ? "Unarchive" : "Archive",
+                  icon: <Archive />,
+                  onClick: () => patch(s.id, { archived: !s.archived })
+                },
+                { type: "divider" },
+                {
+                  type: "button",
+                  label: "Delete",
+                  icon: <Trash />,
+                  destructiveAction: true,
+                  onClick: () => remove(s)
+                }
+              ]}
+            />
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="px-3 pb-2 text-xs text-red-600">{error}</p>}
+      <button
+        type="button"
+        className="p-3 text-xs text-left text-muted-foreground border-t border-neutral-300 dark:border-neutral-800 hover:underline"
+        onClick={() => setArchived((v) => !v)}
+      >
+        {archived ? "← Back to chats" : "Archived chats"}
+      </button>
+      <div className="p-3 flex items-center gap-2 text-xs border-t border-neutral-300 dark:border-neutral-800">
+        {email ? (
+          <>
+            <span className="flex-1 truncate" title={email}>
+              {email}
+            </span>
+            <Button variant="ghost" size="sm" onClick={onSignOut}>
+              Sign out
+            </Button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 text-muted-foreground">
+              Chats are kept in this browser
+            </span>
+            {onSignIn && (
+              <Button variant="ghost" size="sm" onClick={onSignIn}>
+                Sign in
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from "react";
+import { Copy, Trash } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Select } from "@/components/select/Select";
+import type { ShareLink } from "@/shared";
+
+type ShareModalProps = {
+  session: string;
+  onClose: () => void;
+};
+
+// seconds, or "never"
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires" },
+  { value: String(24 * 60 * 60), label: "Expires in 1 day" },
+  { value: String(7 * 24 * 60 * 60), label: "Expires in 7 days" },
+  { value: String(30 * 24 * 60 * 60), label: "Expires in 30 days" }
+];
+
+export function ShareModal({ session, onClose }: ShareModalProps) {
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [expiry, setExpiry] = useState("never");
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const query = `session=${encodeURIComponent(session)}`;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/share?${query}`);
+      if (!res.ok) throw new Error("Could not load share links.");
+      setShares(await res.json<ShareLink[]>());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [query]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const create = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/share?${query}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          expiresIn: expiry === "never" ? null : Number(expiry)
+        })
+      });
+      const data = await res.json<{
+        ok: boolean;
+        share?: ShareLink;
+        error?: string;
+      }>();
+      if (!data.ok || !data.share) {
+        throw new Error(data.error ?? "Could not create the link.");
+      }
+      await copy(data.share);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const copy = async (share: ShareLink) => {
+    if (!share.url) return;
+    await navigator.clipboard.writeText(share.url).catch(() => {});
+    setCopied(share.id);
+  };
+
+  const revoke = async (id: string) => {
+    setError(null);
+    const res = await fetch(`/api/share/${encodeURIComponent(id)}?${query}`, {
+      method: "DELETE"
+    });
+    const data = await res.json<{ ok: boolean; error?: string }>();
+    if (!data.ok) setError(data.error ?? "Could not revoke the link.");
+    await load();
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-lg">Share this chat</h3>
+      <p className="text-sm text-muted-foreground">
+        Anyone with a link can read the messages sent before it was created.
+        They cannot write to or delete this chat.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Select
+          size="sm"
+          className="flex-1"
+          options={EXPIRY_OPTIONS}
+          value={expiry}
+          setValue={setExpiry}
+        />
+        <Button variant="primary" size="sm" loading={creating} onClick={create}>
+          Create link
+        </Button>
+      </div>
+
+      <ul className="space-y-2">
+        {shares.map((s) => (
+          <li
+            key={s.id}
+            className="flex items-center gap-2 rounded-md border border-neutral-200 dark:border-neutral-800 p-2 text-sm"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="truncate font-mono text-xs">{s.url}</div>
+              <div className="text-xs text-muted-foreground">
+                Created {new Date(s.createdAt).toLocaleString()} ·{" "}
+                {s.expiresAt
+                  ? `expires ${new Date(s.expiresAt).toLocaleString()}`
+                  : "never expires"}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              shape="square"
+              aria-label="Copy link"
+              onClick={() => copy(s)}
+            >
+              {copied === s.id ? "✓" : <Copy size={14} />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              shape="square"
+              aria-label="Revoke link"
+              onClick={() => revoke(s.id)}
+            >
+              <Trash size={14} />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button variant="secondary" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { Avatar } from "@/components/avatar/Avatar";
+import { Card } from "@/components/card/Card";
+import { MemoizedMarkdown } from "@/components/memoized-markdown";
+import type { SharedConversation as Snapshot } from "@/shared";
+
+type SharedConversationProps = {
+  token: string;
+};
+
+/** Read-only page for a share link (/share/:token) */
+export function SharedConversation({ token }: SharedConversationProps) {
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/shared/${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json<Snapshot & { error?: string }>();
+        if (!res.ok) throw new Error(data.error ?? "Could not load the chat.");
+        setSnapshot(data);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [token]);
+
+  useEffect(() => {
+    if (snapshot?.title) document.title = `${snapshot.title} · AI Chat Agent`;
+  }, [snapshot]);
+
+  return (
+    <div className="min-h-[100vh] w-full p-4 flex justify-center">
+      <div className="w-full max-w-2xl space-y-4">
+        <header className="border-b border-neutral-300 dark:border-neutral-800 pb-3">
+          <h1 className="font-semibold text-lg">
+            {snapshot?.title ?? "Shared chat"}
+          </h1>
+          {snapshot && (
+            <p className="text-xs text-muted-foreground">
+              Read-only copy shared{" "}
+              {new Date(snapshot.sharedAt).toLocaleString()}
+            </p>
+          )}
+        </header>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!snapshot && !error && (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        )}
+
+        {snapshot?.messages.map((m) => {
+          const isUser = m.role === "user";
+          return (
+            <div
+              key={m.id}
+              className={`flex ${isUser ? "justify-end" : "justify-start"}`}
+            >
+              <div
+                className={`flex gap-2 max-w-[85%] ${isUser ? "flex-row-reverse" : "flex-row"}`}
+              >
+                {!isUser && <Avatar username={"AI"} />}
+                <div>
+                  <Card
+                    className={`p-3 rounded-md bg-neutral-100 dark:bg-neutral-900 ${
+                      isUser
+                        ? "rounded-br-none"
+                        : "rounded-bl-none border-assistant-border"
+                    }`}
+                  >
+                    <MemoizedMarkdown id={`${m.id}-md`} content={m.content} />
+                  </Card>
+                  <p
+                    className={`text-xs text-muted-foreground mt-1 ${isUser ? "text-right" : "text-left"}`}
+                  >
+                    {new Date(m.ts).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Label } from "@/components/label/Label";
+
+type SignInModalProps = {
+  onClose: () => void;
+};
+
+export function SignInModal({ onClose }: SignInModalProps) {
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const send = async () => {
+    setSending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email })
+      });
+      const data = await res.json<{ ok: boolean; error?: string }>();
+      if (!data.ok) throw new Error(data.error ?? "Could not send the link.");
+      setSent(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="space-y-4">
+        <h3 className="font-semibold text-lg">Check your email</h3>
+        <p className="text-sm">
+          We sent a sign-in link to <strong>{email}</strong>. Open it in this
+          browser to keep the chats you started here.
+        </p>
+        <div className="flex justify-end">
+          <Button variant="secondary" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-lg">Sign in</h3>
+      <p className="text-sm text-muted-foreground">
+        Signing in keeps your chats across browsers. The chats in this browser
+        move to your account.
+      </p>
+      <Label title="Email">
+        <Input
+          size="sm"
+          type="email"
+          placeholder="you@example.com"
+          initialValue={email}
+          onValueChange={setEmail}
+        />
+      </Label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          loading={sending}
+          disabled={!email.trim()}
+          onClick={send}
+        >
+          Send link
+        </Button>
+      </div>
+    </div>
+  );
+}
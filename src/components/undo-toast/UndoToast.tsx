@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { Button } from "@/components/button/Button";
+
+type UndoToastProps = {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number; // Default: 8000 ms
+};
+
+/** Notice after a deletion offering to undo it; goes away by itself. */
+export function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 8000
+}: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [onDismiss, duration]);
+
+  return (
+    <div
+      aria-live="polite"
+      className="absolute bottom-24 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 rounded-md px-4 py-2 text-sm shadow-lg bg-neutral-900 text-white dark:bg-neutral-100 dark:text-neutral-900"
+    >
+      <span>{message}</span>
+      <Button variant="secondary" size="sm" onClick={onUndo}>
+        Undo
+      </Button>
+    </div>
+  );
+}
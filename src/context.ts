@@ -0,0 +1,126 @@
+/**
+ * Token-aware prompt assembly. Stored history is kept as-is; only the slice that
+ * fits the model's context window is sent on each turn.
+ */
+import type { ModelInfo } from "./models";
+import {
+  isTextMessage,
+  type ConversationSummary,
+  type HistoryMessage
+} from "./shared";
+
+// Rough average for Llama-style BPE tokenizers on English text and code
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators the chat template adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MAX_OUTPUT_TOKENS = 4096;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function messageTokens(m: HistoryMessage): number {
+  const body = isTextMessage(m)
+    ? m.content
+    : m.role === "tool-call"
+      ? `${m.toolName} ${JSON.stringify(m.input) ?? ""}`
+      : `${m.toolName} ${JSON.stringify(m.output) ?? ""}`;
+  return estimateTokens(body) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/** Tokens available for history once the system prompt and the reply are accounted for */
+export function historyBudget(model: ModelInfo, systemPrompt: string): number {
+  const reserved = Math.min(
+    MAX_OUTPUT_TOKENS,
+    Math.floor(model.contextWindow / 4)
+  );
+  return model.contextWindow - reserved - estimateTokens(systemPrompt);
+}
+
+/**
+ * Picks the most recent messages that fit in `budget` tokens. The latest message is
+ * always kept, and tool calls are never separated from their results.
+ */
+export function fitToBudget(
+  history: HistoryMessage[],
+  budget: number
+): { messages: HistoryMessage[]; dropped: HistoryMessage[] } {
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const next = history[start - 1];
+    const cost = messageTokens(next);
+    if (used + cost > budget && start < history.length) break;
+    used += cost;
+    start--;
+  }
+  // Do not open the window on a tool result whose call was cut off.
+  while (start < history.length - 1 && history[start].role === "tool-result") {
+    start++;
+  }
+  return { messages: history.slice(start), dropped: history.slice(0, start) };
+}
+
+// Room kept in the system prompt for the rolling summary of older turns
+export const SUMMARY_TOKENS = 1024;
+
+/**
+ * Messages that left the window but are not folded into the summary yet.
+ * `summary.upTo` is the last summarized message; when it is gone from history
+ * (pruned), messages up to its timestamp count as summarized.
+ */
+export function pendingForSummary(
+  history: HistoryMessage[],
+  dropped: number,
+  summary?: Pick<ConversationSummary, "upTo" | "upToTs">
+): HistoryMessage[] {
+  if (!summary) return history.slice(0, dropped);
+  const folded = history.findIndex((m) => m.id === summary.upTo);
+  if (folded !== -1) return history.slice(folded + 1, dropped);
+  const { upToTs } = summary;
+  return history
+    .slice(0, dropped)
+    .filter((m) => upToTs === undefined || m.ts > upToTs);
+}
+
+/** Splits messages into consecutive chunks of at most `maxTokens` each */
+export function chunkByTokens(
+  messages: HistoryMessage[],
+  maxTokens: number
+): HistoryMessage[][] {
+  const chunks: HistoryMessage[][] = [];
+  let current: HistoryMessage[] = [];
+  let used = 0;
+  for (const m of messages) {
+    const cost = messageTokens(m);
+    if (current.length > 0 && used + cost > maxTokens) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(m);
+    used += cost;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/** Plain-text transcript used as input for summarization */
+export function toTranscript(messages: HistoryMessage[]): string {
+  return messages
+    .map((m) => {
+      if (isTextMessage(m)) {
+        const who =
+          m.role === "user"
+            ? "User"
+            : m.role === "assistant"
+              ? "Assistant"
+              : "System";
+        return `${who}: ${m.content}`;
+      }
+      if (m.role === "tool-call")
+        return `Tool call ${m.toolName}: ${JSON.stringify(m.input)}`;
+      return `Tool result ${m.toolName}: ${JSON.stringify(m.output)}`;
+    })
+    .join("\n");
+}
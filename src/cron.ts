@@ -0,0 +1,240 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week) for
+ * recurring jobs. Next runs are computed in the job's IANA time zone via Intl,
+ * so "0 9 * * 1-5" means 9:00 on weekdays in that zone across DST changes.
+ */
+
+export type Cron = {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // day-of-month / day-of-week written as "*"; when both are restricted either may match
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+type Field = { name: string; min: number; max: number; names?: string[] };
+
+const FIELDS: Field[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: "jan feb mar apr may jun jul aug sep oct nov dec".split(" ")
+  },
+  // 0 and 7 are both Sunday
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: "sun mon tue wed thu fri sat".split(" ")
+  }
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *"
+};
+
+// How far ahead to look before deciding an expression never fires (e.g. "0 0 30 2 *")
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseValue(token: string, field: Field): number {
+  const named = field.names?.indexOf(token.toLowerCase()) ?? -1;
+  const value =
+    named >= 0 ? named + (field.name === "month" ? 1 : 0) : Number(token);
+  if (
+    !/^(\d+|[a-z]+)$/i.test(token) ||
+    !Number.isInteger(value) ||
+    value < field.min ||
+    value > field.max
+  ) {
+    throw new Error(`invalid ${field.name} "${token}"`);
+  }
+  return value;
+}
+
+function parseField(text: string, field: Field): number[] {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step in ${field.name} "${part}"`);
+    }
+    let lo = field.min;
+    let hi = field.max;
+    if (range !== "*") {
+      const [a, b, ...more] = range.split("-");
+      if (more.length > 0) throw new Error(`invalid ${field.name} "${part}"`);
+      lo = parseValue(a, field);
+      // "5/15" means every 15 starting at 5
+      hi =
+        b !== undefined
+          ? parseValue(b, field)
+          : stepText !== undefined
+            ? field.max
+            : lo;
+    }
+    if (lo > hi) throw new Error(`invalid range in ${field.name} "${part}"`);
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+/** Parses a cron expression, throwing an Error that names the bad field */
+export function parseCron(expression: string): Cron {
+  const text = expression.trim();
+  const parts = (MACROS[text.toLowerCase()] ?? text).split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `expected 5 cron fields (minute hour day month weekday), got ${parts.length}`
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((p, i) =>
+    parseField(p, FIELDS[i])
+  );
+  return {
+    minutes,
+    hours,
+    days: new Set(days),
+    months: new Set(months),
+    weekdays: new Set(weekdays.map((d) => d % 7)),
+    anyDay: parts[2].startsWith("*"),
+    anyWeekday: parts[4].startsWith("*")
+  };
+}
+
+// Recurring jobs run at most this often, so one job cannot call the model every minute
+export const MIN_CRON_INTERVAL_MS = 5 * 60_000;
+
+/** Shortest time between two runs of `cron`, across midnight too (DST shifts aside) */
+export function cronInterval(cron: Cron): number {
+  const times = cron.hours.flatMap((h) => cron.minutes.map((m) => h * 60 + m));
+  let shortest = times[0] + 24 * 60 - times[times.length - 1];
+  for (let i = 1; i < times.length; i++) {
+    shortest = Math.min(shortest, times[i] - times[i - 1]);
+  }
+  return shortest * 60_000;
+}
+
+/** Throws when `cron` would run more often than MIN_CRON_INTERVAL_MS allows */
+export function assertCronInterval(cron: Cron) {
+  if (cronInterval(cron) < MIN_CRON_INTERVAL_MS) {
+    throw new Error(
+      `runs more often than every ${MIN_CRON_INTERVAL_MS / 60_000} minutes`
+    );
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of `ts` in `timeZone` */
+function zonedParts(ts: number, timeZone: string) {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric"
+    });
+    formatters.set(timeZone, format);
+  }
+  const parts: Record<string, number> = {};
+  for (const p of format.formatToParts(ts)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute
+  };
+}
+
+function offsetAt(ts: number, timeZone: string): number {
+  const p = zonedParts(ts, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return wall - (ts - (ts % 60_000));
+}
+
+/** UTC timestamp of a wall-clock time in `timeZone`, or null when DST skips it */
+function fromWallTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number | null {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset at the wall time itself may be off by one DST shift; one correction settles it.
+  const ts = wall - offsetAt(wall - offsetAt(wall, timeZone), timeZone);
+  const p = zonedParts(ts, timeZone);
+  return p.hour === hour && p.minute === minute ? ts : null;
+}
+
+function dayMatches(cron: Cron, day: number, weekday: number): boolean {
+  if (cron.anyDay && cron.anyWeekday) return true;
+  if (cron.anyDay) return cron.weekdays.has(weekday);
+  if (cron.anyWeekday) return cron.days.has(day);
+  return cron.days.has(day) || cron.weekdays.has(weekday);
+}
+
+/** First time strictly after `after` (ms) that matches `cron` in `timeZone` */
+export function nextCronRun(
+  cron: Cron,
+  after: number,
+  timeZone = "UTC"
+): number {
+  const start = zonedParts(after, timeZone);
+  const startMinutes = start.hour * 60 + start.minute;
+  for (let i = 0; i <= MAX_LOOKAHEAD_DAYS; i++) {
+    // Calendar arithmetic on the wall date; UTC has no DST to get in the way.
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + i));
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!cron.months.has(month) || !dayMatches(cron, day, date.getUTCDay())) {
+      continue;
+    }
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        if (i === 0 && hour * 60 + minute < startMinutes) continue;
+        const ts = fromWallTime(
+          date.getUTCFullYear(),
+          month,
+          day,
+          hour,
+          minute,
+          timeZone
+        );
+        if (ts !== null && ts > after) return ts;
+      }
+    }
+  }
+  throw new Error("cron expression never matches");
+}
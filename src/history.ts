@@ -0,0 +1,32 @@
+/**
+ * Paging through a session's history in the chat view. The view starts with
+ * the latest page and loads older pages as it is scrolled up
+ * (`GET /api/history?limit=&before=`); refreshes fetch the latest page only
+ * and fold it into what is loaded.
+ */
+import type { HistoryMessage } from "./shared";
+
+// Entries fetched per request
+export const HISTORY_PAGE = 50;
+
+/**
+ * `loaded` brought up to date with the `latest` page, or null when the page
+ * does not continue it (the history was replaced or has moved on by more than
+ * a page) and the view has to start over from the latest page.
+ */
+export function withLatestPage(
+  loaded: HistoryMessage[],
+  latest: HistoryMessage[]
+): HistoryMessage[] | null {
+  const at = loaded.findIndex((m) => m.id === latest[0]?.id);
+  return at === -1 ? null : [...loaded.slice(0, at), ...latest];
+}
+
+/** `loaded` with an older page in front of it */
+export function withOlderPage(
+  loaded: HistoryMessage[],
+  older: HistoryMessage[]
+): HistoryMessage[] {
+  const known = new Set(loaded.map((m) => m.id));
+  return [...older.filter((m) => !known.has(m.id)), ...loaded];
+}
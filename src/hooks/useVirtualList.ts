@@ -0,0 +1,188 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState
+} from "react";
+
+type UseVirtualListProps = {
+  scrollRef: React.RefObject<HTMLElement | null>;
+  listRef: React.RefObject<HTMLElement | null>;
+  keys: string[];
+  estimateSize?: number; // Default: 120
+  overscan?: number; // Pixels rendered past each edge of the viewport. Default: 800
+};
+
+/**
+ * Renders only the rows of a long list that are near the viewport of
+ * `scrollRef`, with padding standing in for the others. The rows are the
+ * children of `listRef` and carry their key in `data-key`; each is measured
+ * once rendered and counts as `estimateSize` until then.
+ *
+ * The row at the top of the viewport keeps its place when rows are added or
+ * resized above it, and a list scrolled to the bottom stays at the bottom.
+ */
+export const useVirtualList = ({
+  scrollRef,
+  listRef,
+  keys,
+  estimateSize = 120,
+  overscan = 800
+}: UseVirtualListProps) => {
+  const [sizes, setSizes] = useState(() => new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const anchorRef = useRef<{ key: string; gap: number } | null>(null);
+  const atBottomRef = useRef(true);
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const key of keys) {
+      result.push(result[result.length - 1] + (sizes.get(key) ?? estimateSize));
+    }
+    return result;
+  }, [keys, sizes, estimateSize]);
+
+  const layoutRef = useRef({ keys, offsets });
+  layoutRef.current = { keys, offsets };
+
+  const listTop = useCallback(() => {
+    const el = scrollRef.current;
+    const list = listRef.current;
+    if (!el || !list) return 0;
+    return (
+      list.getBoundingClientRect().top -
+      el.getBoundingClientRect().top +
+      el.scrollTop
+    );
+  }, [scrollRef, listRef]);
+
+  // Remembers where the viewport is: which row is at its top and how far in.
+  const track = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = el.scrollTop - listTop();
+    const { keys, offsets } = layoutRef.current;
+    const first = offsets.findIndex((offset, i) => i > 0 && offset > top) - 1;
+    anchorRef.current =
+      first >= 0 ? { key: keys[first], gap: offsets[first] - top } : null;
+    atBottomRef.current =
+      el.scrollHeight - (el.scrollTop + el.clientHeight) <= 2;
+    setViewport((prev) =>
+      prev.top === top && prev.height === el.clientHeight
+        ? prev
+        : { top, height: el.clientHeight }
+    );
+  }, [scrollRef, listTop]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const resized = new ResizeObserver(track);
+    resized.observe(el);
+    el.addEventListener("scroll", track, { passive: true });
+    return () => {
+      resized.disconnect();
+      el.removeEventListener("scroll", track);
+    };
+  }, [scrollRef, track]);
+
+  // Rows are measured whenever their content changes size.
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<HTMLElement>());
+  const observer = useCallback(() => {
+    observerRef.current ??= new ResizeObserver((entries) => {
+      setSizes((prev) => {
+        let next = prev;
+        for (const entry of entries) {
+          const row = entry.target as HTMLElement;
+          const key = row.dataset.key;
+          if (!key || !row.isConnected || prev.get(key) === row.offsetHeight) {
+            continue;
+          }
+          if (next === prev) next = new Map(prev);
+          next.set(key, row.offsetHeight);
+        }
+        return next;
+      });
+    });
+    return observerRef.current;
+  }, []);
+
+  useEffect(
+    () => () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+      observedRef.current = new Set();
+    },
+    []
+  );
+
+  const range = useMemo(() => {
+    const from = viewport.top - overscan;
+    const to = viewport.top + viewport.height + overscan;
+    let start = 0;
+    while (start < keys.length && offsets[start + 1] < from) start++;
+    let end = start;
+    while (end < keys.length && offsets[end] < to) end++;
+    return { start, end };
+  }, [keys, offsets, viewport, overscan]);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const rendered = new Set(
+      Array.from(list.children).filter(
+        (child): child is HTMLElement =>
+          child instanceof HTMLElement && !!child.dataset.key
+      )
+    );
+    for (const row of observedRef.current) {
+      if (!rendered.has(row)) observer().unobserve(row);
+    }
+    for (const row of rendered) {
+      if (!observedRef.current.has(row)) observer().observe(row);
+    }
+    observedRef.current = rendered;
+  });
+
+  // Puts the viewport back where it was after rows above it changed.
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    // A list that starts over (emptied, then filled) opens at its bottom.
+    if (keys.length === 0) atBottomRef.current = true;
+    if (atBottomRef.current) {
+      el.scrollTop = el.scrollHeight;
+      return;
+    }
+    const anchor = anchorRef.current;
+    const at = anchor ? keys.indexOf(anchor.key) : -1;
+    if (!anchor || at === -1) return;
+    const scrollTop = listTop() + offsets[at] - anchor.gap;
+    if (Math.abs(el.scrollTop - scrollTop) >= 1) el.scrollTop = scrollTop;
+  }, [keys, offsets, scrollRef, listTop]);
+
+  /** Scrolls the row with `key` into view; false when there is no such row. */
+  const scrollToKey = useCallback(
+    (key: string) => {
+      const el = scrollRef.current;
+      const { keys, offsets } = layoutRef.current;
+      const at = keys.indexOf(key);
+      if (!el || at === -1) return false;
+      atBottomRef.current = false;
+      el.scrollTop = listTop() + offsets[at] - el.clientHeight / 3;
+      return true;
+    },
+    [scrollRef, listTop]
+  );
+
+  return {
+    start: range.start,
+    end: range.end,
+    paddingTop: offsets[range.start],
+    paddingBottom: offsets[keys.length] - offsets[range.end],
+    scrollToKey
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * Registry of the Workers AI models a session may use.
+ * Shared by the Chat Durable Object (validation, tool support) and the UI (model picker).
+ */
+
+export type CostTier = "low" | "medium" | "high";
+
+export type ModelInfo = {
+  id: string;
+  label: string;
+  /** Context window in tokens */
+  contextWindow: number;
+  /** Whether the model accepts function calling; others run text-only */
+  supportsTools: boolean;
+  costTier: CostTier;
+};
+
+export const DEFAULT_MODEL_ID = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    label: "Llama 3.3 70B",
+    contextWindow: 24_000,
+    supportsTools: true,
+    costTier: "high"
+  },
+  {
+    id: "@cf/meta/llama-4-scout-17b-16e-instruct",
+    label: "Llama 4 Scout 17B",
+    contextWindow: 131_000,
+    supportsTools: true,
+    costTier: "medium"
+  },
+  {
+    id: "@cf/mistralai/mistral-small-3.1-24b-instruct",
+    label: "Mistral Small 3.1 24B",
+    contextWindow: 128_000,
+    supportsTools: true,
+    costTier: "medium"
+  },
+  {
+    id: "@hf/nousresearch/hermes-2-pro-mistral-7b",
+    label: "Hermes 2 Pro 7B",
+    contextWindow: 24_000,
+    supportsTools: true,
+    costTier: "low"
+  },
+  {
+    id: "@cf/meta/llama-3.1-8b-instruct-fast",
+    label: "Llama 3.1 8B (fast)",
+    contextWindow: 128_000,
+    supportsTools: false,
+    costTier: "low"
+  }
+];
+
+export function findModel(id: string): ModelInfo | undefined {
+  return MODELS.find((m) => m.id === id);
+}
+
+/** Looks up a model, falling back to the default for unknown or missing ids */
+export function getModel(id?: string): ModelInfo {
+  return (id && findModel(id)) || findModel(DEFAULT_MODEL_ID)!;
+}
@@ -0,0 +1,53 @@
+/**
+ * Persona presets a session can start from. Each session keeps its own editable
+ * copy in Durable Object storage, seeded from these defaults.
+ */
+
+export type Persona = {
+  id: string;
+  name: string;
+  prompt: string;
+};
+
+export const DEFAULT_SYSTEM_PROMPT = "You are a concise, helpful assistant.";
+
+export const MAX_SYSTEM_PROMPT_CHARS = 4000;
+
+export const DEFAULT_PERSONAS: Persona[] = [
+  { id: "assistant", name: "Assistant", prompt: DEFAULT_SYSTEM_PROMPT },
+  {
+    id: "code-reviewer",
+    name: "Code reviewer",
+    prompt:
+      "You are a senior code reviewer. Point out bugs, unclear naming and missing tests first, then style. Quote the lines you comment on and keep each remark short."
+  },
+  {
+    id: "translator",
+    name: "Translator",
+    prompt:
+      "You are a translator. Translate the user's message into English, or into the language they ask for. Reply with the translation only, keeping formatting and tone."
+  },
+  {
+    id: "summarizer",
+    name: "Summarizer",
+    prompt:
+      "You are a summarizer. Reply with a short bullet list of the key points and decisions in the user's text, followed by open questions if there are any."
+  }
+];
+
+/** Validates a client-supplied persona list, returning null when it is malformed */
+export function parsePersonas(input: unknown): Persona[] | null {
+  if (!Array.isArray(input) || input.length > 50) return null;
+  const personas: Persona[] = [];
+  for (const item of input) {
+    const { id, name, prompt } = (item ?? {}) as Partial<Persona>;
+    if (typeof id !== "string" || !id || id.length > 64) return null;
+    if (typeof name !== "string" || !name.trim() || name.length > 80)
+      return null;
+    if (typeof prompt !== "string" || prompt.length > MAX_SYSTEM_PROMPT_CHARS)
+      return null;
+    if (personas.some((p) => p.id === id)) return null;
+    personas.push({ id, name: name.trim(), prompt });
+  }
+  return personas;
+}
@@ -0,0 +1,164 @@
+import { listSessions, newSession, type SessionActivity } from "./sessions";
+import type { SessionInfo } from "./shared";
+import { createRateLimits, takeToken } from "./storage";
+
+const PREFIX = "session:";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" }
+  });
+}
+
+/**
+ * Session list of one owner (one instance per `sid` cookie or account). Entries
+ * are stored under `session:<id>` so the list is not limited by the size of a
+ * single storage value. An owner's instance also keeps the rate limits of
+ * requests made on its behalf, such as sign-in emails to an account. The
+ * instance named "shares" maps the token of each share link to its session.
+ */
+export class Registry {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+    createRateLimits(state.storage.sql);
+  }
+
+  private async get(id: string): Promise<SessionInfo | undefined> {
+    return this.state.storage.get<SessionInfo>(PREFIX + id);
+  }
+
+  private async put(session: SessionInfo) {
+    await this.state.storage.put(PREFIX + session.id, session);
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+
+    if (url.pathname.endsWith("/sessions") && method === "GET") {
+      const all = await this.state.storage.list<SessionInfo>({
+        prefix: PREFIX
+      });
+      const archived = url.searchParams.get("archived");
+      return jsonResponse(
+        listSessions([...all.values()], {
+          query: url.searchParams.get("q") ?? "",
+          archived: archived === "any" ? null : archived === "1"
+        })
+      );
+    }
+
+    if (url.pathname.endsWith("/sessions") && method === "POST") {
+      const { id } = await request
+        .json<{ id?: unknown }>()
+        .catch(() => ({ id: undefined }));
+      if (typeof id !== "string" || !id) {
+        return jsonResponse({ ok: false, error: "missing id" }, 400);
+      }
+      const session = (await this.get(id)) ?? newSession(id, Date.now());
+      await this.put(session);
+      return jsonResponse({ ok: true, session });
+    }
+
+    // Magic links of an account are single use; the marker outlives the link.
+    const link = url.pathname.match(/\/links\/([^/]+)$/);
+    if (link && method === "POST") {
+      const key = `link:${decodeURIComponent(link[1])}`;
+      if (await this.state.storage.get(key)) {
+        return jsonResponse({ ok: false, error: "link already used" }, 409);
+      }
+      await this.state.storage.put(key, Date.now());
+      return jsonResponse({ ok: true });
+    }
+
+    // Takes a token from the bucket `key` (see takeToken); 429 when it is empty.
+    const limit = url.pathname.match(/\/limits\/([^/]+)$/);
+    if (limit && method === "POST") {
+      const { ratePerMin, burst } = await request
+        .json<{ ratePerMin?: unknown; burst?: unknown }>()
+        .catch(() => ({ ratePerMin: undefined, burst: undefined }));
+      if (typeof ratePerMin !== "number" || typeof burst !== "number") {
+        return jsonResponse({ ok: false, error: "invalid limit" }, 400);
+      }
+      const key = decodeURIComponent(limit[1]);
+      const allowed = takeToken(
+        this.state.storage.sql,
+        key,
+        Date.now(),
+        ratePerMin,
+        burst
+      );
+      return jsonResponse({ ok: allowed }, allowed ? 200 : 429);
+    }
+
+    // Which session a share link belongs to; the link's copy is kept by that Chat.
+    const share = url.pathname.match(/\/shares\/([^/]+)$/);
+    if (share) {
+      const key = `share:${decodeURIComponent(share[1])}`;
+      if (method === "GET") {
+        const session = await this.state.storage.get<string>(key);
+        if (!session) {
+          return jsonResponse({ ok: false, error: "not found" }, 404);
+        }
+        return jsonResponse({ ok: true, session });
+      }
+      if (method === "PUT") {
+        const { session } = await request
+          .json<{ session?: unknown }>()
+          .catch(() => ({ session: undefined }));
+        if (typeof session !== "string" || !session) {
+          return jsonResponse({ ok: false, error: "missing session" }, 400);
+        }
+        await this.state.storage.put(key, session);
+        return jsonResponse({ ok: true });
+      }
+      if (method === "DELETE") {
+        await this.state.storage.delete(key);
+        return jsonResponse({ ok: true });
+      }
+    }
+
+    const activity = url.pathname.match(/\/sessions\/([^/]+)\/activity$/);
+    if (activity && method === "PUT") {
+      const id = decodeURIComponent(activity[1]);
+      const report = await request.json<SessionActivity>();
+      const session = (await this.get(id)) ?? newSession(id, Date.now());
+      await this.put({ ...session, ...report });
+      return jsonResponse({ ok: true });
+    }
+
+    const sessionPath = url.pathname.match(/\/sessions\/([^/]+)$/);
+    if (!sessionPath) return new Response("Not found", { status: 404 });
+    const id = decodeURIComponent(sessionPath[1]);
+    const session = await this.get(id);
+    if (!session) return jsonResponse({ ok: false, error: "not found" }, 404);
+
+    if (method === "PATCH") {
+      const body = await request
+        .json<{ pinned?: unknown; archived?: unknown }>()
+        .catch(() => null);
+      if (!body) return jsonResponse({ ok: false, error: "invalid json" }, 400);
+      // The title is kept by the Chat itself (PUT /api/title) and reported here.
+      const next = { ...session };
+      for (const key of ["pinned", "archived"] as const) {
+        if (body[key] === undefined) continue;
+        if (typeof body[key] !== "boolean") {
+          return jsonResponse({ ok: false, error: `invalid ${key}` }, 400);
+        }
+        next[key] = body[key];
+      }
+      await this.put(next);
+      return jsonResponse({ ok: true, session: next });
+    }
+
+    if (method === "DELETE") {
+      await this.state.storage.delete(PREFIX + id);
+      return jsonResponse({ ok: true });
+    }
+
+    return new Response("Not found", { status: 404 });
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * How long a session keeps its messages. The policy is one of the session's
+ * settings and is applied by the daily prune in the Chat's alarm, never while
+ * messages are written, so the chat view can announce what the next prune
+ * deletes. An ephemeral session is wiped once no tab has it open.
+ */
+import type { RetentionPolicy } from "./shared";
+
+// What the default policy keeps: messages of the last 14 days, the latest 300 at most
+export const DEFAULT_RETENTION_DAYS = 14;
+export const DEFAULT_RETENTION_MESSAGES = 300;
+export const DEFAULT_RETENTION: RetentionPolicy = { mode: "default" };
+export const MAX_RETENTION_DAYS = 3650;
+export const MAX_RETENTION_MESSAGES = 10_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Messages a prune deletes: those older than `before` and all but the latest `keep`
+export type RetentionLimits = { before: number | null; keep: number | null };
+
+function isCount(value: unknown, max: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= max
+  );
+}
+
+/** The policy in a settings update, or null when it is not a valid one */
+export function parseRetention(value: unknown): RetentionPolicy | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { mode, days, count } = value as Record<string, unknown>;
+  if (mode === "default" || mode === "forever" || mode === "ephemeral") {
+    return { mode };
+  }
+  if (mode === "days" && isCount(days, MAX_RETENTION_DAYS)) {
+    return { mode, days };
+  }
+  if (mode === "messages" && isCount(count, MAX_RETENTION_MESSAGES)) {
+    return { mode, count };
+  }
+  return null;
+}
+
+/** What a prune at `now` deletes; null for an ephemeral session, which is wiped whole */
+export function retentionLimits(
+  policy: RetentionPolicy,
+  now: number
+): RetentionLimits | null {
+  switch (policy.mode) {
+    case "default":
+      return {
+        before: now - DEFAULT_RETENTION_DAYS * DAY_MS,
+        keep: DEFAULT_RETENTION_MESSAGES
+      };
+    case "forever":
+      return { before: null, keep: null };
+    case "days":
+      return { before: now - policy.days * DAY_MS, keep: null };
+    case "messages":
+      return { before: null, keep: policy.count };
+    case "ephemeral":
+      return null;
+  }
+}
+
+export function describeRetention(policy: RetentionPolicy): string {
+  switch (policy.mode) {
+    case "default":
+      return `kept for ${DEFAULT_RETENTION_DAYS} days, latest ${DEFAULT_RETENTION_MESSAGES} at most`;
+    case "forever":
+      return "kept forever";
+    case "days":
+      return `kept for ${policy.days} ${policy.days === 1 ? "day" : "days"}`;
+    case "messages":
+      return `latest ${policy.count} kept`;
+    case "ephemeral":
+      return "deleted when the chat is closed";
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Recognizes chat box text that asks for something to happen later, such as
+ * "remind me tomorrow at 8am to review the PR". Such text is offered as a job
+ * (see `POST /api/schedule/parse`) instead of being sent to the model; when no
+ * time can be read from it, it goes to the chat as usual.
+ */
+
+const UNITS =
+  "minutes?|hours?|days?|weeks?|months?|mornings?|evenings?|nights?|weekdays?|weekends?|mondays?|tuesdays?|wednesdays?|thursdays?|fridays?|saturdays?|sundays?";
+
+const PATTERNS = [
+  // "remind me to …", "remind me tomorrow …", but not "remind me how …"
+  /^(?:please\s+|can you\s+|could you\s+)?remind me\s+(?:to|at|in|on|by|tomorrow|tonight|every|next|this|each)\b/i,
+  /^(?:please\s+)?(?:set|add|create)\s+(?:up\s+)?a\s+reminder\b/i,
+  new RegExp(`^every\\s+(?:other\\s+|\\d+\\s+)?(?:${UNITS})\\b`, "i"),
+  new RegExp(
+    `^(?:tomorrow|tonight|in\\s+\\d+\\s+(?:${UNITS}))\\b.*\\bremind me\\b`,
+    "i"
+  )
+];
+
+export function looksLikeSchedule(text: string): boolean {
+  const trimmed = text.trim();
+  return PATTERNS.some((pattern) => pattern.test(trimmed));
+}
@@ -0,0 +1,78 @@
+/**
+ * Timed work of the Chat Durable Object (scheduled jobs, their retries, the
+ * daily history prune and purging deleted messages once they can no longer be
+ * restored) kept in one queue ordered by time. A Durable Object has a
+ * single alarm, so whoever changes the queue re-arms it for the earliest task.
+ */
+
+export type Task =
+  | {
+      id: string;
+      type: "job";
+      jobId: string;
+      at: number;
+      // failed runs so far; 0 for the first try
+      attempt: number;
+    }
+  | { id: string; type: "prune"; at: number }
+  | { id: string; type: "purge"; deletionId: string; at: number };
+
+export const PRUNE_TASK_ID = "prune";
+
+// A job whose model call keeps failing is retried this many times before it is marked failed
+export const MAX_JOB_RETRIES = 3;
+
+// An ISO 8601 date or time, as opposed to a cron expression
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const RETRY_BASE_MS = 60_000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+
+export function jobTaskId(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+export function purgeTaskId(deletionId: string): string {
+  return `purge:${deletionId}`;
+}
+
+/** Inserts `task`, replacing any task with the same id, keeping the queue ordered by time */
+export function upsertTask(queue: Task[], task: Task): Task[] {
+  const rest = queue.filter((t) => t.id !== task.id);
+  const index = rest.findIndex((t) => t.at > task.at);
+  rest.splice(index === -1 ? rest.length : index, 0, task);
+  return rest;
+}
+
+export function removeTask(queue: Task[], id: string): Task[] {
+  return queue.filter((t) => t.id !== id);
+}
+
+export function dueTasks(queue: Task[], now: number): Task[] {
+  return queue.filter((t) => t.at <= now);
+}
+
+/** Delay before retry number `attempt` (1-based): 1, 2, 4, … minutes, capped at an hour */
+export function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), MAX_RETRY_MS);
+}
+
+export function isIsoDate(when: string): boolean {
+  return ISO_DATE.test(when);
+}
+
+/**
+ * When a one-off job runs, given as a date, an ISO string or a delay in
+ * seconds from `now`. Throws for a time that is not valid or has passed.
+ */
+export function oneOffRunAt(when: Date | number | string, now: number): number {
+  const runAt =
+    when instanceof Date
+      ? when.getTime()
+      : typeof when === "number"
+        ? now + when * 1000
+        : Date.parse(when);
+  if (!Number.isFinite(runAt)) throw new Error("not a valid time");
+  if (runAt <= now) throw new Error("that time has already passed");
+  return runAt;
+}
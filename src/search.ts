@@ -0,0 +1,79 @@
+/**
+ * Full-text search over a Chat's messages. `message_search` is an FTS5 index
+ * of the `content` column of the `messages` table, kept in step by triggers
+ * (see `storage.ts`), so only user and assistant messages can match.
+ */
+import type { SearchHit } from "./shared";
+
+export const MAX_QUERY_CHARS = 200;
+// Hits returned by one Chat
+export const MAX_SESSION_HITS = 20;
+
+// Marks around the matched terms in `snippet()` output
+const OPEN = "\u0002";
+const CLOSE = "\u0003";
+const MARKED = new RegExp(`(${OPEN}[^${CLOSE}]*${CLOSE})`);
+const SNIPPET_TOKENS = 16;
+
+export type SessionHit = Omit<SearchHit, "session" | "title">;
+
+/**
+ * FTS5 query for what a user typed: every word must appear, the last one may
+ * be the start of a word. Words are quoted so punctuation is matched, not
+ * parsed as query syntax. Null when there is nothing to search for.
+ */
+export function toFtsQuery(text: string): string | null {
+  const words = text
+    .slice(0, MAX_QUERY_CHARS)
+    .split(/\s+/)
+    .map((w) => w.replace(/\p{Cc}/gu, ""))
+    .filter(Boolean);
+  if (words.length === 0) return null;
+  return words
+    .map((w, i) => {
+      const quoted = `"${w.replace(/"/g, '""')}"`;
+      return i === words.length - 1 ? `${quoted}*` : quoted;
+    })
+    .join(" ");
+}
+
+/** Splits a marked snippet into plain and matched parts */
+export function snippetParts(snippet: string): SearchHit["snippet"] {
+  return snippet
+    .split(MARKED)
+    .filter(Boolean)
+    .map((piece) =>
+      piece.startsWith(OPEN)
+        ? { text: piece.slice(1, -1), match: true }
+        : { text: piece, match: false }
+    );
+}
+
+/** Messages matching `query`, newest first */
+export function searchMessages(
+  sql: SqlStorage,
+  query: string,
+  limit = MAX_SESSION_HITS
+): SessionHit[] {
+  const rows = sql.exec<{
+    id: string;
+    role: string;
+    ts: number;
+    snippet: string;
+  }>(
+    `SELECT m.id, m.role, m.ts, snippet(message_search, 0, ?, ?, '…', ?) AS snippet
+     FROM message_search JOIN messages m ON m.seq = message_search.rowid
+     WHERE message_search MATCH ? ORDER BY m.ts DESC LIMIT ?`,
+    OPEN,
+    CLOSE,
+    SNIPPET_TOKENS,
+    query,
+    limit
+  );
+  return rows.toArray().map((row) => ({
+    messageId: row.id,
+    role: row.role === "user" ? "user" : "assistant",
+    ts: Number(row.ts),
+    snippet: snippetParts(row.snippet)
+  }));
+}
@@ -1,31 +1,51 @@
-import type { Schedule } from "agents";
-import { getSchedulePrompt } from "agents/schedule";
-import { AIChatAgent } from "agents/ai-chat-agent";
-import {
-  generateId,
-  streamText,
-  type StreamTextOnFinishCallback,
-  stepCountIs,
-  createUIMessageStream,
-  convertToModelMessages,
-  createUIMessageStreamResponse,
-  type ToolSet
-} from "ai";
+import { streamText } from "ai";
 import { createWorkersAI } from "workers-ai-provider";
 import type { Ai, AiModels } from "@cloudflare/workers-types";
-import { processToolCalls, cleanupMessages } from "./utils";
-import { tools, executions } from "./tools";
+import { EmailMessage } from "cloudflare:email";
+import { DEFAULT_MODEL_ID } from "./models";
+import {
+  MAGIC_LINK_TTL_MS,
+  accountOwner,
+  isValidEmail,
+  newAnonymousOwner,
+  randomToken,
+  sign,
+  signJson,
+  verify,
+  verifyJson,
+  type Account
+} from "./auth";
+import { displayTitle } from "./sessions";
+import type { Identity, SearchHit, SearchPage, SessionInfo, ShareLink } from "./shared";
 
 export { Chat } from "./chat-do";
-
-const SUPPORTS_TOOLS = false;
-const MODEL_ID = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+export { Registry } from "./registry-do";
 
 export interface AppEnv {
   AI?: unknown;
   Chat: DurableObjectNamespace;
+  Registry: DurableObjectNamespace;
+  // signs the sid and account cookies and magic links (wrangler secret)
+  SESSION_SECRET?: string;
+  // optional email sign-in: a send_email binding and the address links are sent from
+  SEND_EMAIL?: SendEmail;
+  MAIL_FROM?: string;
+  // MCP servers whose tools the chat can call, separated by commas or spaces
+  MCP_SERVERS?: string;
 }
 
+type MagicLink = { email: string; nonce: string; exp: number };
+// Registry instance holding the rate limits of callers that are not tied to an owner
+const LIMITS_REGISTRY = "limits";
+// Registry instance mapping share link tokens to their sessions
+const SHARES_REGISTRY = "shares";
+const ANON_COOKIE_MAX_AGE = 15552000;
+const ACCOUNT_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+// A search across sessions asks this many of them per request, most recently active first,
+// which keeps each request well below the subrequest limit of the free plan (50)
+const SEARCH_PAGE_SESSIONS = 20;
+const MAX_SEARCH_HITS = 50;
+
 function hasAi(env: AppEnv): env is AppEnv & { AI: unknown } {
   return typeof (env as { AI?: unknown }).AI !== "undefined";
 }
@@ -43,8 +63,35 @@ function readCookie(req: Request, name: string): string | null {
   }
   return null;
 }
-function requireSessionForApi(req: Request, url: URL): string {
-  return url.searchParams.get("session") || readCookie(req, "sid") || (() => {
+function cookie(name: string, value: string, maxAge: number): string {
+  return `${name}=${encodeURIComponent(value)}; Path=/; Max-Age=${maxAge}; HttpOnly; SameSite=Lax; Secure`;
+}
+function errorResponse(status: number, error: string): Response {
+  return new Response(JSON.stringify({ ok: false, error }), {
+    status,
+    headers: { "content-type": "application/json" }
+  });
+}
+function secretOf(env: AppEnv): string {
+  if (!env.SESSION_SECRET) throw new Error("SESSION_SECRET is not set; add it with `wrangler secret put SESSION_SECRET`.");
+  return env.SESSION_SECRET;
+}
+async function readAccount(req: Request, env: AppEnv): Promise<Account | null> {
+  const raw = readCookie(req, "account");
+  return raw ? verifyJson<Account>(raw, secretOf(env)) : null;
+}
+async function readAnonymousOwner(req: Request, env: AppEnv): Promise<string | null> {
+  const raw = readCookie(req, "sid");
+  const owner = raw ? await verify(raw, secretOf(env)) : null;
+  return owner?.startsWith("anon:") ? owner : null;
+}
+// An unsigned sid cookie from before cookies were signed; that raw sid owned the browser's sessions.
+function readLegacySid(req: Request): string | null {
+  const raw = readCookie(req, "sid");
+  return raw && /^s-[\w-]+$/.test(raw) ? raw : null;
+}
+function requireSessionForApi(url: URL): string {
+  return url.searchParams.get("session") || (() => {
     throw new Response(JSON.stringify({ ok: false, error: "missing session" }), {
       status: 400,
       headers: { "content-type": "application/json" }
@@ -52,156 +99,597 @@ function requireSessionForApi(req: Request, url: URL): string {
   })();
 }
 
+// The signed-in account, else the browser's signed sid cookie, owns the sessions it creates.
+async function requireOwner(req: Request, env: AppEnv): Promise<string> {
+  const owner = (await readAccount(req, env))?.owner ?? (await readAnonymousOwner(req, env));
+  if (!owner) throw errorResponse(401, "not signed in");
+  return owner;
+}
+
+// Chat stub whose requests carry the session id and the caller's owner id. The Chat answers 403 to
+// anyone but its owner and reports its activity to the owner's session list. `legacySid` is only
+// passed on when read from the caller's own legacy cookie; it lets the Chat move to `owner`.
+function chatStub(env: AppEnv, owner: string, sessionId: string, legacySid?: string) {
+  const stub = env.Chat.get(env.Chat.idFromName(sessionId));
+  return {
+    fetch(input: RequestInfo, init?: RequestInit) {
+      const forwarded = new Request(input, init);
+      forwarded.headers.set("x-chat-session", sessionId);
+      forwarded.headers.set("x-chat-owner", owner);
+      // Never taken from the caller: the WebSocket upgrade forwards the caller's own headers.
+      if (legacySid) forwarded.headers.set("x-chat-legacy-sid", legacySid);
+      else forwarded.headers.delete("x-chat-legacy-sid");
+      return stub.fetch(forwarded);
+    }
+  };
+}
+
+function registryStub(env: AppEnv, owner: string) {
+  return env.Registry.get(env.Registry.idFromName(owner));
+}
+
+// Takes a token from a rate-limit bucket kept by a Registry instance; false when it is empty.
+async function takeRegistryToken(env: AppEnv, registry: string, key: string, ratePerMin: number, burst: number) {
+  const res = await registryStub(env, registry).fetch(`https://registry/limits/${encodeURIComponent(key)}`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ ratePerMin, burst })
+  });
+  return res.ok;
+}
+
+// The emailed link opens this page; signing in takes the button press, so mail scanners that open
+// links do not use up the single-use link.
+function signInPage(token: string): Response {
+  const html = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Sign in</title></head>
+<body style="font-family: system-ui, sans-serif; display: grid; place-items: center; min-height: 90vh">
+<form method="post" action="/auth/verify">
+<input type="hidden" name="token" value="${token}">
+<button type="submit" style="font-size: 1rem; padding: 0.5rem 1.5rem">Sign in</button>
+</form>
+</body>
+</html>`;
+  return new Response(html, { headers: { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" } });
+}
+
+async function sendMagicLink(env: AppEnv & { SEND_EMAIL: SendEmail; MAIL_FROM: string }, email: string, link: string) {
+  const raw = [
+    `From: ${env.MAIL_FROM}`,
+    `To: ${email}`,
+    "Subject: Your sign-in link",
+    `Message-ID: <${randomToken()}@${env.MAIL_FROM.split("@")[1]}>`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    `Open this link within ${MAGIC_LINK_TTL_MS / 60_000} minutes to sign in:`,
+    "",
+    link,
+    "",
+    "If you did not ask to sign in, you can ignore this email."
+  ].join("\r\n");
+  await env.SEND_EMAIL.send(new EmailMessage(env.MAIL_FROM, email, raw));
+}
+
+// The link's id is its token: random, and saying nothing about the session it belongs to.
+function withShareUrl(origin: string, share: ShareLink): ShareLink {
+  return { ...share, url: `${origin}/share/${encodeURIComponent(share.id)}` };
+}
+
+function shareIndexUrl(token: string) {
+  return `https://registry/shares/${encodeURIComponent(token)}`;
+}
+
+// Each Chat searches its own index; one page of sessions is asked in parallel and the hits merged, newest first.
+async function searchSessions(env: AppEnv, owner: string, q: string, offset: number): Promise<SearchPage> {
+  const res = await registryStub(env, owner).fetch("https://registry/sessions?archived=any", { method: "GET" });
+  const all = (await res.json<SessionInfo[]>()).sort((a, b) => b.lastActivity - a.lastActivity);
+  const sessions = all.slice(offset, offset + SEARCH_PAGE_SESSIONS);
+  const results = await Promise.all(
+    sessions.map(async s => {
+      const hits = await chatStub(env, owner, s.id)
+        .fetch(`https://do/search?q=${encodeURIComponent(q)}`, { method: "GET" })
+        .then(r => (r.ok ? r.json<SearchHit[]>() : []))
+        .catch(() => []);
+      return hits.map(h => ({ ...h, session: s.id, title: displayTitle(s) }));
+    })
+  );
+  const next = offset + sessions.length;
+  return {
+    hits: results.flat().sort((a, b) => b.ts - a.ts).slice(0, MAX_SEARCH_HITS),
+    next: next < all.length ? next : null
+  };
+}
+
+// Moves every session of an anonymous browser into the account it just signed in to.
+async function claimSessions(env: AppEnv, from: string, to: string) {
+  const source = registryStub(env, from);
+  const target = registryStub(env, to);
+  for (const archived of ["0", "1"]) {
+    const res = await source.fetch(`https://registry/sessions?archived=${archived}`, { method: "GET" });
+    for (const s of await res.json<SessionInfo[]>()) {
+      const claimed = await chatStub(env, from, s.id).fetch("https://do/claim", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ owner: to })
+      });
+      if (!claimed.ok) continue;
+      await target.fetch(`https://registry/sessions/${encodeURIComponent(s.id)}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ pinned: s.pinned, archived: s.archived })
+      });
+      await source.fetch(`https://registry/sessions/${encodeURIComponent(s.id)}`, { method: "DELETE" });
+    }
+  }
+}
+
+// Moves the sessions of a legacy raw sid (its session list, and the session opened under the sid itself)
+// to the owner that replaces it. Only called with the sid from the caller's own cookie.
+async function migrateLegacySessions(env: AppEnv, sid: string, owner: string) {
+  const source = registryStub(env, sid);
+  const res = await source.fetch("https://registry/sessions?archived=any", { method: "GET" });
+  const listed = res.ok ? await res.json<SessionInfo[]>() : [];
+  for (const id of new Set([sid, ...listed.map(s => s.id)])) {
+    const registered = await chatStub(env, owner, id, sid).fetch("https://do/register", { method: "POST" });
+    const s = listed.find(l => l.id === id);
+    if (!registered.ok || !s) continue;
+    await registryStub(env, owner).fetch(`https://registry/sessions/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ pinned: s.pinned, archived: s.archived })
+    });
+    await source.fetch(`https://registry/sessions/${encodeURIComponent(id)}`, { method: "DELETE" });
+  }
+}
+
+// The signed sid cookie for a browser that has none yet; what its legacy sid owned moves to the new owner.
+async function anonymousOwnerCookie(request: Request, env: AppEnv): Promise<string> {
+  const owner = newAnonymousOwner();
+  const legacySid = readLegacySid(request);
+  if (legacySid) await migrateLegacySessions(env, legacySid, owner);
+  return cookie("sid", await sign(owner, secretOf(env)), ANON_COOKIE_MAX_AGE);
+}
+
 function createWorkersAIClient(env: AppEnv) {
   if (!hasAi(env)) throw new Error("Workers AI binding missing in environment.");
   return createWorkersAI({ binding: env.AI as unknown as Ai<AiModels> });
 }
 
-export class ChatAgent extends AIChatAgent<AppEnv> {
-  async onChatMessage(
-    onFinish: StreamTextOnFinishCallback<ToolSet>,
-    _options?: { abortSignal?: AbortSignal }
-  ) {
-    const makeModel = createWorkersAIClient(this.env);
-    const model = makeModel(MODEL_ID as never);
-    const allTools = SUPPORTS_TOOLS ? { ...tools, ...this.mcp.getAITools() } : ({} as ToolSet);
-    const stream = createUIMessageStream({
-      execute: async ({ writer }) => {
-        try {
-          const cleaned = cleanupMessages(this.messages);
-          const processed = await processToolCalls({
-            messages: cleaned,
-            dataStream: writer,
-            tools: allTools,
-            executions
-          });
-          const result = streamText({
-            system: `You are a helpful assistant that can do various tasks...
-
-${getSchedulePrompt({ date: new Date() })}
-
-If the user asks to schedule a task, use the schedule tool to schedule the task.`,
-            messages: convertToModelMessages(processed),
-            model,
-            ...(SUPPORTS_TOOLS ? { tools: allTools } : {}),
-            onFinish: onFinish as unknown as StreamTextOnFinishCallback<typeof allTools>,
-            stopWhen: stepCountIs(10)
-          });
-          writer.merge(result.toUIMessageStream());
-        } catch (err) {}
+async function handle(request: Request, env: AppEnv): Promise<Response> {
+  const url = new URL(request.url);
+  const isApi = url.pathname.startsWith("/api/");
+  const isHtml =
+    (request.headers.get("accept") || "").includes("text/html") ||
+    (request.headers.get("sec-fetch-dest") || "") === "document";
+  const isStatic =
+    url.pathname.startsWith("/assets/") ||
+    url.pathname.startsWith("/static/") ||
+    url.pathname.startsWith("/favicon") ||
+    url.pathname.startsWith("/_next/") ||
+    url.pathname.endsWith(".js") ||
+    url.pathname.endsWith(".css") ||
+    url.pathname.endsWith(".map") ||
+    url.pathname.endsWith(".png") ||
+    url.pathname.endsWith(".jpg") ||
+    url.pathname.endsWith(".svg") ||
+    url.pathname.endsWith(".ico") ||
+    url.pathname.endsWith(".webp");
+
+  if (url.pathname === "/auth/verify" && request.method === "GET") {
+    const token = url.searchParams.get("token") ?? "";
+    const link = /^[\w.-]+$/.test(token) ? await verifyJson<MagicLink>(token, secretOf(env)) : null;
+    if (!link || link.exp < Date.now()) {
+      return new Response("This sign-in link is invalid or has expired.", { status: 400 });
+    }
+    return signInPage(token);
+  }
+
+  if (url.pathname === "/auth/verify" && request.method === "POST") {
+    const secret = secretOf(env);
+    const form = await request.formData().catch(() => null);
+    const link = await verifyJson<MagicLink>(String(form?.get("token") ?? ""), secret);
+    if (!link || link.exp < Date.now()) {
+      return new Response("This sign-in link is invalid or has expired.", { status: 400 });
+    }
+    const account: Account = { owner: await accountOwner(link.email), email: link.email };
+    const used = await registryStub(env, account.owner).fetch(`https://registry/links/${encodeURIComponent(link.nonce)}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ exp: link.exp })
+    });
+    if (!used.ok) return new Response("This sign-in link was already used.", { status: 400 });
+    const anonymous = await readAnonymousOwner(request, env);
+    if (anonymous) await claimSessions(env, anonymous, account.owner);
+    return new Response(null, {
+      status: 303,
+      headers: {
+        Location: "/",
+        "Set-Cookie": cookie("account", await signJson(account, secret), ACCOUNT_COOKIE_MAX_AGE)
       }
     });
-    return createUIMessageStreamResponse({ stream });
   }
 
-  async executeTask(description: string, _task: Schedule<string>) {
-    await this.saveMessages([
-      ...this.messages,
-      {
-        id: generateId(),
-        role: "user",
-        parts: [{ type: "text", text: `Running scheduled task: ${description}` }],
-        metadata: { createdAt: new Date() }
-      }
-    ]);
+  // Public read-only view; the page itself is the app, started with ?share=.
+  if (url.pathname.startsWith("/share/") && request.method === "GET") {
+    const token = decodeURIComponent(url.pathname.slice("/share/".length));
+    return Response.redirect(`${url.origin}/?share=${encodeURIComponent(token)}`, 302);
   }
-}
 
-export default {
-  async fetch(request: Request, env: AppEnv) {
-    const url = new URL(request.url);
-    const isApi = url.pathname.startsWith("/api/");
-    const isHtml =
-      (request.headers.get("accept") || "").includes("text/html") ||
-      (request.headers.get("sec-fetch-dest") || "") === "document";
-    const isStatic =
-      url.pathname.startsWith("/assets/") ||
-      url.pathname.startsWith("/static/") ||
-      url.pathname.startsWith("/favicon") ||
-      url.pathname.startsWith("/_next/") ||
-      url.pathname.endsWith(".js") ||
-      url.pathname.endsWith(".css") ||
-      url.pathname.endsWith(".map") ||
-      url.pathname.endsWith(".png") ||
-      url.pathname.endsWith(".jpg") ||
-      url.pathname.endsWith(".svg") ||
-      url.pathname.endsWith(".ico") ||
-      url.pathname.endsWith(".webp");
-
-    if (!isApi && isHtml && !isStatic && request.method === "GET") {
-      let sid = url.searchParams.get("session") || readCookie(request, "sid");
+  if (url.pathname.startsWith("/api/shared/") && request.method === "GET") {
+    const token = decodeURIComponent(url.pathname.slice("/api/shared/".length));
+    const res = await registryStub(env, SHARES_REGISTRY).fetch(shareIndexUrl(token), { method: "GET" });
+    if (!res.ok) return errorResponse(404, "this link is not valid");
+    const { session } = await res.json<{ session: string }>();
+    const stub = env.Chat.get(env.Chat.idFromName(session));
+    return stub.fetch(`https://do/shared?share=${encodeURIComponent(token)}`, { method: "GET" });
+  }
+
+  if (!isApi && isHtml && !isStatic && request.method === "GET" && !url.searchParams.has("share")) {
+    const owner = await readAnonymousOwner(request, env);
+    let sid = url.searchParams.get("session");
+    if (!sid || sid === "default" || !owner) {
       if (!sid || sid === "default") {
         sid = makeSid();
         url.searchParams.set("session", sid);
-        return new Response(null, {
-          status: 302,
-          headers: {
-            Location: url.toString(),
-            "Set-Cookie": `sid=${encodeURIComponent(sid)}; Path=/; Max-Age=15552000; SameSite=Lax; Secure`
-          }
-        });
       }
+      const headers = new Headers({ Location: url.toString() });
+      if (!owner) headers.set("Set-Cookie", await anonymousOwnerCookie(request, env));
+      return new Response(null, { status: 302, headers });
     }
+  }
 
-    if (url.pathname === "/check-open-ai-key") {
-      const ok = hasAi(env);
-      return Response.json({ success: ok });
-    }
-
-    if (url.pathname === "/debug-model") {
-      try {
-        const makeModel = createWorkersAIClient(env);
-        const model = makeModel(MODEL_ID as never);
-        const result = await streamText({
-          system: "probe",
-          messages: [{ role: "user", content: "Say 'ok' if you can hear me." }],
-          model
-        });
-        let out = "";
-        for await (const chunk of result.textStream) out += chunk;
-        return new Response(out || "ok");
-      } catch (e: unknown) {
-        const msg = e instanceof Error ? e.message : String(e);
-        return new Response(`Probe failed: ${msg}`, { status: 500 });
-      }
+  // Called by the client before anything else, so a browser that arrived without the HTML redirect
+  // gets its sid cookie here before its first session request.
+  if (url.pathname === "/api/auth/me" && request.method === "GET") {
+    const account = await readAccount(request, env);
+    const headers = new Headers({ "content-type": "application/json" });
+    if (!account && !(await readAnonymousOwner(request, env))) {
+      headers.set("Set-Cookie", await anonymousOwnerCookie(request, env));
     }
+    const me: Identity = { email: account?.email ?? null, emailSignIn: Boolean(env.SEND_EMAIL && env.MAIL_FROM) };
+    return new Response(JSON.stringify(me), { headers });
+  }
+
+  if (url.pathname === "/api/auth/magic-link" && request.method === "POST") {
+    await requireOwner(request, env);
+    if (!env.SEND_EMAIL || !env.MAIL_FROM) return errorResponse(501, "email sign-in is not configured");
+    const { email } = await request.json<{ email?: unknown }>().catch(() => ({ email: undefined }));
+    if (typeof email !== "string" || !isValidEmail(email.trim())) return errorResponse(400, "invalid email");
+    const link: MagicLink = { email: email.trim().toLowerCase(), nonce: randomToken(), exp: Date.now() + MAGIC_LINK_TTL_MS };
+    // Sign-in emails are limited per caller and per address, so no one can send them without end.
+    const caller = request.headers.get("cf-connecting-ip") ?? "unknown";
+    const allowed =
+      (await takeRegistryToken(env, LIMITS_REGISTRY, `magic-link:${caller}`, 2, 5)) &&
+      (await takeRegistryToken(env, await accountOwner(link.email), "magic-link", 1, 3));
+    if (!allowed) return errorResponse(429, "too many sign-in emails; try again in a few minutes");
+    const token = await signJson(link, secretOf(env));
+    await sendMagicLink({ ...env, SEND_EMAIL: env.SEND_EMAIL, MAIL_FROM: env.MAIL_FROM }, link.email, `${url.origin}/auth/verify?token=${encodeURIComponent(token)}`);
+    return Response.json({ ok: true });
+  }
+
+  if (url.pathname === "/api/auth/logout" && request.method === "POST") {
+    return new Response(JSON.stringify({ ok: true }), {
+      headers: { "content-type": "application/json", "Set-Cookie": cookie("account", "", 0) }
+    });
+  }
+
+  if (url.pathname === "/check-open-ai-key") {
+    const ok = hasAi(env);
+    return Response.json({ success: ok });
+  }
 
-    if (url.pathname === "/api/chat" && request.method === "POST") {
-      const sessionId = requireSessionForApi(request, url);
-      const id = env.Chat.idFromName(sessionId);
-      const stub = env.Chat.get(id);
+  if (url.pathname === "/debug-model") {
+    try {
+      const makeModel = createWorkersAIClient(env);
+      const model = makeModel(DEFAULT_MODEL_ID as never);
+      const result = await streamText({
+        system: "probe",
+        messages: [{ role: "user", content: "Say 'ok' if you can hear me." }],
+        model
+      });
+      let out = "";
+      for await (const chunk of result.textStream) out += chunk;
+      return new Response(out || "ok");
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return new Response(`Probe failed: ${msg}`, { status: 500 });
+    }
+  }
+
+  if (url.pathname === "/api/sessions" && request.method === "GET") {
+    const registry = registryStub(env, await requireOwner(request, env));
+    return registry.fetch(`https://registry/sessions${url.search}`, { method: "GET" });
+  }
+
+  if (url.pathname === "/api/sessions" && request.method === "POST") {
+    const owner = await requireOwner(request, env);
+    const { adopt } = await request.json<{ adopt?: unknown }>().catch(() => ({ adopt: undefined }));
+    // Sessions listed by an older client are registered if they have any history.
+    if (Array.isArray(adopt)) {
+      const ids = adopt.filter((id): id is string => typeof id === "string" && id.length > 0).slice(0, 20);
+      for (const id of ids) await chatStub(env, owner, id).fetch("https://do/register", { method: "POST" });
+      return Response.json({ ok: true, adopted: ids.length });
+    }
+    const id = makeSid();
+    await chatStub(env, owner, id).fetch("https://do/register", { method: "POST" });
+    return registryStub(env, owner).fetch("https://registry/sessions", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ id })
+    });
+  }
+
+  if (url.pathname.startsWith("/api/sessions/")) {
+    const owner = await requireOwner(request, env);
+    const id = decodeURIComponent(url.pathname.slice("/api/sessions/".length));
+    const registry = registryStub(env, owner);
+    const target = `https://registry/sessions/${encodeURIComponent(id)}`;
+    if (request.method === "PATCH") {
       const body = await request.text();
-      return stub.fetch("https://do/", {
-        method: "POST",
+      return registry.fetch(target, {
+        method: "PATCH",
         headers: { "content-type": "application/json" },
         body
       });
     }
+    if (request.method === "DELETE") {
+      // Only sessions in the caller's own list can be deleted.
+      const res = await registry.fetch(target, { method: "DELETE" });
+      if (!res.ok) return res;
+      return chatStub(env, owner, id).fetch("https://do/session", { method: "DELETE" });
+    }
+  }
 
-    if (url.pathname === "/api/history") {
-      const sessionId = requireSessionForApi(request, url);
-      const id = env.Chat.idFromName(sessionId);
-      const stub = env.Chat.get(id);
-      if (request.method === "GET") {
-        return stub.fetch("https://do/history", { method: "GET" });
-      }
-      if (request.method === "DELETE") {
-        return stub.fetch("https://do/history", { method: "DELETE" });
-      }
+  // One session with ?session=, otherwise every session of the caller.
+  if (url.pathname === "/api/search" && request.method === "GET") {
+    const owner = await requireOwner(request, env);
+    const q = url.searchParams.get("q") ?? "";
+    if (!q.trim()) return errorResponse(400, "missing q");
+    const sessionId = url.searchParams.get("session");
+    if (sessionId) return chatStub(env, owner, sessionId).fetch(`https://do/search?q=${encodeURIComponent(q)}`, { method: "GET" });
+    const offset = Number(url.searchParams.get("offset") ?? 0);
+    if (!Number.isInteger(offset) || offset < 0) return errorResponse(400, "invalid offset");
+    return Response.json(await searchSessions(env, owner, q, offset));
+  }
+
+  if (url.pathname === "/api/chat" && request.method === "POST") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const body = await request.text();
+    return stub.fetch("https://do/", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body,
+      signal: request.signal
+    });
+  }
+
+  if (url.pathname === "/api/tool-result" && request.method === "POST") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const body = await request.text();
+    return stub.fetch("https://do/tool-result", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body,
+      signal: request.signal
+    });
+  }
+
+  // Edits and regenerations stream the new reply like /api/chat.
+  if ((url.pathname === "/api/edit" || url.pathname === "/api/regenerate" || url.pathname === "/api/branch") && request.method === "POST") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const body = await request.text();
+    return stub.fetch(`https://do${url.pathname.slice("/api".length)}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body,
+      signal: request.signal
+    });
+  }
+
+  if (url.pathname === "/api/branches" && request.method === "GET") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    return stub.fetch("https://do/branches", { method: "GET" });
+  }
+
+  if (url.pathname === "/api/settings" || url.pathname === "/api/personas") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const target = `https://do${url.pathname.slice("/api".length)}`;
+    if (request.method === "GET") {
+      return stub.fetch(target, { method: "GET" });
     }
+    if (request.method === "PUT") {
+      const body = await request.text();
+      return stub.fetch(target, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body
+      });
+    }
+  }
 
-    if (url.pathname === "/api/schedule" && request.method === "POST") {
-      const sessionId = requireSessionForApi(request, url);
-      const id = env.Chat.idFromName(sessionId);
-      const stub = env.Chat.get(id);
+  if (url.pathname === "/api/title") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    if (request.method === "GET" || request.method === "POST") {
+      return stub.fetch("https://do/title", { method: request.method });
+    }
+    if (request.method === "PUT") {
       const body = await request.text();
-      return stub.fetch("https://do/schedule", {
+      return stub.fetch("https://do/title", {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body
+      });
+    }
+  }
+
+  if (url.pathname === "/api/share") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    if (request.method === "GET") {
+      const res = await stub.fetch("https://do/shares", { method: "GET" });
+      if (!res.ok) return res;
+      const shares = await res.json<ShareLink[]>();
+      return Response.json(shares.map(s => withShareUrl(url.origin, s)));
+    }
+    if (request.method === "POST") {
+      const res = await stub.fetch("https://do/shares", {
         method: "POST",
         headers: { "content-type": "application/json" },
+        body: await request.text()
+      });
+      const data = await res.json<{ ok: boolean; share?: ShareLink; error?: string }>();
+      if (!data.share) return Response.json(data, { status: res.status });
+      await registryStub(env, SHARES_REGISTRY).fetch(shareIndexUrl(data.share.id), {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ session: sessionId })
+      });
+      return Response.json({ ok: true, share: withShareUrl(url.origin, data.share) });
+    }
+  }
+
+  if (url.pathname.startsWith("/api/share/") && request.method === "DELETE") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const token = decodeURIComponent(url.pathname.slice("/api/share/".length));
+    const res = await stub.fetch(`https://do/shares/${encodeURIComponent(token)}`, { method: "DELETE" });
+    if (res.ok) await registryStub(env, SHARES_REGISTRY).fetch(shareIndexUrl(token), { method: "DELETE" });
+    return res;
+  }
+
+  if (url.pathname === "/api/retention" && request.method === "GET") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    return stub.fetch("https://do/retention", { method: "GET" });
+  }
+
+  if (url.pathname === "/api/summary" && request.method === "GET") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    return stub.fetch("https://do/summary", { method: "GET" });
+  }
+
+  if (url.pathname === "/api/ws") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    return stub.fetch(new Request("https://do/ws", request));
+  }
+
+  if (url.pathname === "/api/history") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    if (request.method === "GET") {
+      const params = new URLSearchParams();
+      for (const name of ["limit", "before"]) {
+        const value = url.searchParams.get(name);
+        if (value !== null) params.set(name, value);
+      }
+      return stub.fetch(`https://do/history?${params}`, { method: "GET" });
+    }
+    if (request.method === "DELETE") {
+      return stub.fetch(`https://do/history${url.searchParams.get("jobs") === "1" ? "?jobs=1" : ""}`, { method: "DELETE" });
+    }
+  }
+
+  if (url.pathname === "/api/history/restore" && request.method === "POST") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    return stub.fetch("https://do/history/restore", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: await request.text()
+    });
+  }
+
+  if (url.pathname.startsWith("/api/history/") && request.method === "DELETE") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    return stub.fetch(`https://do${url.pathname.slice("/api".length)}`, { method: "DELETE" });
+  }
+
+  if (url.pathname === "/api/export" && request.method === "GET") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const params = new URLSearchParams({ session: sessionId, format: url.searchParams.get("format") ?? "json" });
+    return stub.fetch(`https://do/export?${params}`, { method: "GET" });
+  }
+
+  if (url.pathname === "/api/import" && request.method === "POST") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const body = await request.text();
+    return stub.fetch(`https://do/import${url.searchParams.get("replace") === "1" ? "?replace=1" : ""}`, {
+      method: "POST",
+      headers: { "content-type": "text/plain" },
+      body
+    });
+  }
+
+  if (url.pathname === "/api/schedule" && request.method === "GET") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    return stub.fetch("https://do/schedule", { method: "GET" });
+  }
+
+  if (url.pathname === "/api/schedule/parse" && request.method === "POST") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const body = await request.text();
+    return stub.fetch("https://do/schedule/parse", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body
+    });
+  }
+
+  if (url.pathname.startsWith("/api/schedule/")) {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const target = `https://do${url.pathname.slice("/api".length)}`;
+    if (request.method === "GET" || request.method === "DELETE") {
+      return stub.fetch(target, { method: request.method });
+    }
+    if (request.method === "PATCH") {
+      const body = await request.text();
+      return stub.fetch(target, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
         body
       });
     }
+  }
 
-    return new Response("Not found", { status: 404 });
+  if (url.pathname === "/api/schedule" && request.method === "POST") {
+    const sessionId = requireSessionForApi(url);
+    const stub = chatStub(env, await requireOwner(request, env), sessionId);
+    const body = await request.text();
+    return stub.fetch("https://do/schedule", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body
+    });
+  }
+
+  return new Response("Not found", { status: 404 });
+}
+
+export default {
+  async fetch(request: Request, env: AppEnv) {
+    try {
+      return await handle(request, env);
+    } catch (e) {
+      // Route helpers reject a request by throwing the response to send.
+      if (e instanceof Response) return e;
+      throw e;
+    }
   }
 } satisfies ExportedHandler<AppEnv>;
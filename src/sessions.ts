@@ -0,0 +1,79 @@
+/**
+ * Session list of one browser (the owner, identified by its `sid` cookie).
+ * The Registry Durable Object keeps one entry per session; each Chat reports
+ * its message count, last activity and titles after every change.
+ */
+import { isTextMessage, type HistoryMessage, type SessionInfo } from "./shared";
+
+export const MAX_TITLE_CHARS = 80;
+
+// Reported by a Chat after its history changes
+export type SessionActivity = Pick<
+  SessionInfo,
+  "messageCount" | "lastActivity" | "autoTitle" | "title"
+>;
+
+export function newSession(id: string, now: number): SessionInfo {
+  return {
+    id,
+    title: null,
+    autoTitle: null,
+    createdAt: now,
+    lastActivity: now,
+    messageCount: 0,
+    pinned: false,
+    archived: false
+  };
+}
+
+export function displayTitle(s: SessionInfo): string {
+  return s.title ?? s.autoTitle ?? "New chat";
+}
+
+/** Trims a title to one line of at most MAX_TITLE_CHARS, or null when empty */
+export function cleanTitle(text: string): string | null {
+  const line = text.trim().split("\n")[0].trim();
+  if (!line) return null;
+  return line.length > MAX_TITLE_CHARS
+    ? `${line.slice(0, MAX_TITLE_CHARS - 1)}…`
+    : line;
+}
+
+export function activityOf(
+  history: HistoryMessage[],
+  title: string | null
+): SessionActivity {
+  const texts = history.filter(isTextMessage);
+  const firstUser = texts.find((m) => m.role === "user");
+  return {
+    messageCount: texts.filter((m) => m.role !== "system").length,
+    lastActivity: history[history.length - 1]?.ts ?? Date.now(),
+    autoTitle: firstUser ? cleanTitle(firstUser.content) : null,
+    title
+  };
+}
+
+/**
+ * Sessions in one view (active or archived, or both for null) whose title or
+ * id contains `query`, pinned first, then most recently active.
+ */
+export function listSessions(
+  sessions: SessionInfo[],
+  {
+    query = "",
+    archived = false
+  }: { query?: string; archived?: boolean | null }
+): SessionInfo[] {
+  const q = query.trim().toLowerCase();
+  return sessions
+    .filter((s) => archived === null || s.archived === archived)
+    .filter(
+      (s) =>
+        !q ||
+        [s.title, s.autoTitle, s.id].some((t) => t?.toLowerCase().includes(q))
+    )
+    .sort(
+      (a, b) =>
+        Number(b.pinned) - Number(a.pinned) || b.lastActivity - a.lastActivity
+    );
+}
@@ -3,3 +3,220 @@ export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied."
 } as const;
+
+// Server-sent events emitted by the chat stream (`data: <json>` per event)
+export type ChatStreamEvent =
+  | { type: "text-delta"; delta: string }
+  | { type: "finish"; reply: string }
+  | { type: "error"; error: string };
+
+// Chat history entry as stored by the Chat Durable Object.
+// Tool calls and their results are stored as separate entries, linked by toolCallId.
+// `parentId` is the entry it followed when it was stored (null for the first one);
+// entries from before branching existed have none.
+export type HistoryMessage =
+  | {
+      id: string;
+      role: "user" | "assistant" | "system";
+      content: string;
+      ts: number;
+      interrupted?: boolean;
+      // set on a reply whose model call failed; it is shown as a failure and not sent to the model
+      error?: string;
+      parentId?: string | null;
+    }
+  | {
+      id: string;
+      role: "tool-call";
+      toolCallId: string;
+      toolName: string;
+      input: unknown;
+      // set for tools that only run after the user approves them
+      needsApproval?: boolean;
+      ts: number;
+      parentId?: string | null;
+    }
+  | {
+      id: string;
+      role: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      output: unknown;
+      isError?: boolean;
+      ts: number;
+      parentId?: string | null;
+    };
+
+export type TextMessage = Extract<HistoryMessage, { content: string }>;
+
+export function isTextMessage(m: HistoryMessage): m is TextMessage {
+  return m.role === "user" || m.role === "assistant" || m.role === "system";
+}
+
+// Per-session settings stored by the Chat Durable Object
+export type SessionSettings = {
+  model: string;
+  systemPrompt: string;
+  // id of the persona preset the system prompt was taken from, if any
+  persona: string | null;
+  // IANA zone used for recurring jobs created without an explicit one
+  timeZone: string;
+  retention: RetentionPolicy;
+};
+
+// How long a session keeps its messages; ephemeral ones are wiped once closed
+export type RetentionPolicy =
+  // the limits sessions had before policies existed (see DEFAULT_RETENTION_DAYS)
+  | { mode: "default" }
+  | { mode: "forever" }
+  | { mode: "days"; days: number }
+  | { mode: "messages"; count: number }
+  | { mode: "ephemeral" };
+
+// Messages taken out of a conversation; they can be restored until `purgeAt`
+export type Deletion = {
+  id: string;
+  count: number;
+  deletedAt: number;
+  purgeAt: number;
+};
+
+// What the next prune of a session deletes, shown before it runs
+export type RetentionNotice = {
+  policy: RetentionPolicy;
+  expiring: number;
+  // when the prune runs; null when none is due
+  at: number | null;
+};
+
+// Running summary of the turns that no longer fit the model's context window
+export type ConversationSummary = {
+  text: string;
+  // id of the last history entry folded into the summary
+  upTo: string;
+  // its timestamp, which still marks the end of the summary once the entry is pruned
+  upToTs?: number;
+  // number of entries folded so far
+  count: number;
+  ts: number;
+};
+
+export type JobStatus = "pending" | "paused" | "running" | "done" | "failed";
+
+// Prompt scheduled to run later on the session's alarm.
+// Finished jobs are kept (up to a limit) so their outcome can be inspected.
+// Recurring jobs go back to "pending" with the next `runAt` after each run.
+export type Job = {
+  id: string;
+  runAt: number;
+  prompt: string;
+  status: JobStatus;
+  // five-field cron expression, evaluated in `timeZone`
+  cron?: string;
+  timeZone?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  // last history entry the job produced
+  outputMessageId?: string;
+  error?: string;
+  // failed tries of the current run; the job stays pending while it is retried
+  attempts?: number;
+};
+
+// A natural-language scheduling request parsed by the Chat Durable Object.
+// It is shown for confirmation and only becomes a job once posted to /api/schedule.
+export type ParsedSchedule = {
+  description: string;
+  // prompt the job will run
+  prompt: string;
+  // when the job runs; for recurring jobs the first run
+  runAt: number;
+  cron?: string;
+  timeZone?: string;
+};
+
+// Session title, generated by the model after the first exchange unless the user set one
+export type SessionTitle = {
+  text: string;
+  source: "model" | "user";
+};
+
+// Where the conversation was edited or regenerated: the entry the branches follow
+// (null before the first one) and the first entry of each branch that is not shown
+export type BranchPoint = {
+  parentId: string | null;
+  alternatives: { id: string; ts: number }[];
+};
+
+// Events pushed to every open tab of a session over its WebSocket
+export type HistoryEvent =
+  // the latest page of the history (see HISTORY_PAGE), sent to a socket when it connects
+  | { type: "history"; history: HistoryMessage[] }
+  // entries before the end changed (branch switch, deletion, restore, import); tabs load their pages again
+  | { type: "changed" }
+  | { type: "append"; entries: HistoryMessage[] }
+  | { type: "cleared" }
+  | { type: "settings"; settings: SessionSettings }
+  | { type: "summary"; summary: ConversationSummary | null }
+  | { type: "title"; title: SessionTitle | null }
+  | { type: "branches"; branches: BranchPoint[] };
+
+// Read-only link to a session, kept by its Chat until revoked or expired.
+// It shows a copy of the conversation taken at `createdAt`; later messages and edits stay private.
+export type ShareLink = {
+  // random token the link is reached by
+  id: string;
+  createdAt: number;
+  // null for links that never expire
+  expiresAt: number | null;
+  // public /share/:token address, added by the worker
+  url?: string;
+};
+
+// What a share link shows
+export type SharedConversation = {
+  title: string | null;
+  sharedAt: number;
+  messages: TextMessage[];
+};
+
+// Message matching a search (GET /api/search), with the matched words marked
+export type SearchHit = {
+  session: string;
+  // display title of the session
+  title: string | null;
+  messageId: string;
+  role: "user" | "assistant";
+  ts: number;
+  snippet: { text: string; match: boolean }[];
+};
+
+// One page of a search across sessions; `next` is the offset of the sessions not searched yet
+export type SearchPage = {
+  hits: SearchHit[];
+  next: number | null;
+};
+
+// Who the browser is signed in as (GET /api/auth/me)
+export type Identity = {
+  // null while anonymous
+  email: string | null;
+  // whether this deployment can send sign-in links
+  emailSignIn: boolean;
+};
+
+// Entry in the owner's session list kept by the Registry Durable Object
+export type SessionInfo = {
+  id: string;
+  // generated or user-set title of the Chat; `autoTitle` is shown until there is one
+  title: string | null;
+  // first line of the first user message
+  autoTitle: string | null;
+  createdAt: number;
+  lastActivity: number;
+  // user and assistant messages in the history
+  messageCount: number;
+  pinned: boolean;
+  archived: boolean;
+};
@@ -0,0 +1,664 @@
+/**
+ * SQLite schema of the Chat Durable Object. Messages, jobs, settings and
+ * rate-limit buckets live in tables so a new message is one insert instead of
+ * a rewrite of the whole history. Branches, deletions and the copies kept by
+ * share links have tables too, one row per fork point, deletion or message.
+ * Only small values (title, summary, the task queue) stay in the key-value
+ * storage.
+ *
+ * `migrate` runs the numbered steps the object has not applied yet, before it
+ * handles its first request; applied versions are kept in `schema_migrations`.
+ */
+import type { Fork } from "./branches";
+import type { RetentionLimits } from "./retention";
+import type {
+  Deletion,
+  HistoryMessage,
+  Job,
+  SessionSettings,
+  SharedConversation,
+  ShareLink,
+  TextMessage
+} from "./shared";
+
+type Migration = {
+  version: number;
+  up: (storage: DurableObjectStorage) => Promise<void> | void;
+};
+
+type MessageRow = { data: string };
+
+// How long a rate-limit bucket is kept after its last request
+const BUCKET_TTL_MS = 180_000;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    up: ({ sql }) => {
+      // `seq` keeps the order of the conversation; `content` is set for user
+      // and assistant messages only, which are the ones that can be searched.
+      sql.exec(`CREATE TABLE messages (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        ts INTEGER NOT NULL,
+        content TEXT,
+        data TEXT NOT NULL
+      )`);
+      sql.exec("CREATE INDEX messages_ts ON messages (ts)");
+      sql.exec(`CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        run_at INTEGER NOT NULL,
+        finished_at INTEGER,
+        data TEXT NOT NULL
+      )`);
+      sql.exec("CREATE INDEX jobs_status ON jobs (status, finished_at)");
+      sql.exec(
+        "CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)"
+      );
+      createRateLimits(sql);
+    }
+  },
+  {
+    // Sessions from before the tables kept everything in key-value blobs.
+    version: 2,
+    up: async (storage) => {
+      const history = (await storage.get<HistoryMessage[]>("history")) ?? [];
+      const jobs = (await storage.get<Job[]>("jobs")) ?? [];
+      const settings = await storage.get<Partial<SessionSettings>>("settings");
+      storage.transactionSync(() => {
+        // Entries written before ids existed get a stable one derived from role and timestamp.
+        insertMessages(
+          storage.sql,
+          history.map((m) => (m.id ? m : { ...m, id: `${m.role}-${m.ts}` })),
+          "OR IGNORE"
+        );
+        // Jobs stored before the status lifecycle existed are still waiting to run.
+        for (const job of jobs) {
+          writeJob(
+            storage.sql,
+            job.status
+              ? job
+              : { ...job, status: "pending", createdAt: job.runAt }
+          );
+        }
+        if (settings) writeSettings(storage.sql, settings);
+      });
+      const buckets = await storage.list({ prefix: "tb:" });
+      await storage.delete(["history", "jobs", "settings", ...buckets.keys()]);
+    }
+  },
+  {
+    // Full-text index over `messages`, kept up to date by triggers. It
+    // replaces the index that searches used to rebuild from the history blob.
+    version: 3,
+    up: ({ sql }) => {
+      sql.exec("DROP TABLE IF EXISTS message_search");
+      sql.exec(
+        "CREATE VIRTUAL TABLE message_search USING fts5(content, content='messages', content_rowid='seq')"
+      );
+      sql.exec(`CREATE TRIGGER messages_search_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO message_search (rowid, content) VALUES (new.seq, new.content);
+      END`);
+      sql.exec(`CREATE TRIGGER messages_search_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO message_search (message_search, rowid, content) VALUES ('delete', old.seq, old.content);
+      END`);
+      sql.exec(`CREATE TRIGGER messages_search_update AFTER UPDATE OF content ON messages BEGIN
+        INSERT INTO message_search (message_search, rowid, content) VALUES ('delete', old.seq, old.content);
+        INSERT INTO message_search (rowid, content) VALUES (new.seq, new.content);
+      END`);
+      sql.exec(
+        "INSERT INTO message_search (message_search) VALUES ('rebuild')"
+      );
+    }
+  },
+  {
+    // Deleted messages wait here, with their place in the conversation, until
+    // the deletion is undone or purged. `deletion` groups what went together.
+    version: 4,
+    up: ({ sql }) => {
+      sql.exec(`CREATE TABLE deleted_messages (
+        seq INTEGER PRIMARY KEY,
+        id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        ts INTEGER NOT NULL,
+        content TEXT,
+        data TEXT NOT NULL,
+        deletion TEXT NOT NULL
+      )`);
+      sql.exec(
+        "CREATE INDEX deleted_messages_deletion ON deleted_messages (deletion)"
+      );
+    }
+  },
+  {
+    // A share link keeps a copy of what it shows, taken when it was made.
+    // Links from before the copies showed the live conversation and are
+    // dropped rather than converted, so nothing written since leaks through.
+    version: 5,
+    up: async (storage) => {
+      storage.sql.exec(`CREATE TABLE shares (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        title TEXT
+      )`);
+      storage.sql.exec(`CREATE TABLE shared_messages (
+        share TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (share, seq)
+      )`);
+      await storage.delete("shares");
+    }
+  },
+  {
+    // Branches and deletions move out of their key-value lists, which had to
+    // be rewritten as a whole on every change.
+    version: 6,
+    up: async (storage) => {
+      storage.sql.exec(`CREATE TABLE forks (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        parent_id TEXT,
+        tails TEXT NOT NULL
+      )`);
+      storage.sql.exec(`CREATE TABLE deletions (
+        id TEXT PRIMARY KEY,
+        purge_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`);
+      const forks = (await storage.get<Fork[]>("forks")) ?? [];
+      const deletions = (await storage.get<Deletion[]>("deletions")) ?? [];
+      storage.transactionSync(() => {
+        writeForks(storage.sql, forks);
+        for (const deletion of deletions) writeDeletion(storage.sql, deletion);
+      });
+      await storage.delete(["forks", "deletions"]);
+    }
+  }
+];
+
+export async function migrate(storage: DurableObjectStorage): Promise<void> {
+  storage.sql.exec(
+    "CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, applied_at INTEGER NOT NULL)"
+  );
+  const applied =
+    storage.sql
+      .exec<{
+        version: number | null;
+      }>("SELECT MAX(version) AS version FROM schema_migrations")
+      .one().version ?? 0;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= applied) continue;
+    await migration.up(storage);
+    storage.sql.exec(
+      "INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)",
+      migration.version,
+      Date.now()
+    );
+  }
+}
+
+function parseMessages(rows: Iterable<MessageRow>): HistoryMessage[] {
+  return [...rows].map((row) => JSON.parse(row.data) as HistoryMessage);
+}
+
+export function readMessages(sql: SqlStorage): HistoryMessage[] {
+  return parseMessages(
+    sql.exec<MessageRow>("SELECT data FROM messages ORDER BY seq")
+  );
+}
+
+/** The `limit` latest messages before the one with id `before` (or the latest ones), oldest first */
+export function readMessagePage(
+  sql: SqlStorage,
+  before: string | null,
+  limit: number
+): HistoryMessage[] {
+  const rows = before
+    ? sql.exec<MessageRow>(
+        "SELECT data FROM messages WHERE seq < (SELECT seq FROM messages WHERE id = ?) ORDER BY seq DESC LIMIT ?",
+        before,
+        limit
+      )
+    : sql.exec<MessageRow>(
+        "SELECT data FROM messages ORDER BY seq DESC LIMIT ?",
+        limit
+      );
+  return parseMessages(rows).reverse();
+}
+
+export function insertMessages(
+  sql: SqlStorage,
+  entries: HistoryMessage[],
+  conflict: "" | "OR IGNORE" = ""
+) {
+  for (const m of entries) {
+    const content =
+      m.role === "user" || m.role === "assistant" ? m.content : null;
+    sql.exec(
+      `INSERT ${conflict} INTO messages (id, role, ts, content, data) VALUES (?, ?, ?, ?, ?)`,
+      m.id,
+      m.role,
+      m.ts,
+      content,
+      JSON.stringify(m)
+    );
+  }
+}
+
+/**
+ * Inserts `entries` after the last stored message, each linked to the one
+ * before it, and returns them as stored. Messages stored by other requests in
+ * the meantime stay where they are.
+ */
+export function appendMessages(
+  sql: SqlStorage,
+  entries: HistoryMessage[]
+): HistoryMessage[] {
+  const [last] = sql
+    .exec<{ id: string }>("SELECT id FROM messages ORDER BY seq DESC LIMIT 1")
+    .toArray();
+  let parentId = last?.id ?? null;
+  const linked = entries.map((m) => {
+    const entry = { ...m, parentId };
+    parentId = m.id;
+    return entry;
+  });
+  insertMessages(sql, linked);
+  return linked;
+}
+
+/**
+ * Stores `history` as the conversation. Used where the conversation is
+ * replaced on purpose (branch switches, imports); new messages are appended
+ * with `appendMessages`. Stored messages it repeats in the same
+ * order are kept and the rest is replaced, so appending to or cutting the end
+ * of the history only touches the end. Entries before the first stored one
+ * were pruned already and are not written again.
+ */
+export function replaceMessages(sql: SqlStorage, history: HistoryMessage[]) {
+  const stored = sql
+    .exec<{
+      seq: number;
+      id: string;
+    }>("SELECT seq, id FROM messages ORDER BY seq")
+    .toArray();
+  const offset = Math.max(
+    0,
+    history.findIndex((m) => m.id === stored[0]?.id)
+  );
+  let same = 0;
+  while (
+    same < stored.length &&
+    offset + same < history.length &&
+    stored[same].id === history[offset + same].id
+  ) {
+    same++;
+  }
+  if (same < stored.length) {
+    sql.exec("DELETE FROM messages WHERE seq >= ?", stored[same].seq);
+  }
+  insertMessages(sql, history.slice(offset + same));
+}
+
+/** Deletes the messages outside `limits`; returns how many were deleted */
+export function pruneMessages(
+  sql: SqlStorage,
+  { before, keep }: RetentionLimits
+): number {
+  const count = countPrunable(sql, { before, keep });
+  if (before !== null) sql.exec("DELETE FROM messages WHERE ts < ?", before);
+  if (keep !== null) {
+    sql.exec(
+      "DELETE FROM messages WHERE seq NOT IN (SELECT seq FROM messages ORDER BY seq DESC LIMIT ?)",
+      keep
+    );
+  }
+  return count;
+}
+
+/** How many messages `pruneMessages` would delete */
+export function countPrunable(
+  sql: SqlStorage,
+  { before, keep }: RetentionLimits
+): number {
+  // A timestamp of 0 matches nothing and LIMIT -1 is no limit.
+  const row = sql
+    .exec<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM messages WHERE ts < ?
+       OR seq NOT IN (SELECT seq FROM messages ORDER BY seq DESC LIMIT ?)`,
+      before ?? 0,
+      keep ?? -1
+    )
+    .one();
+  return row.count;
+}
+
+/** Whether the chat holds any messages, jobs or settings, deleted messages included */
+export function hasContent(sql: SqlStorage): boolean {
+  const { found } = sql
+    .exec<{ found: number }>(
+      `SELECT EXISTS (SELECT 1 FROM messages) OR EXISTS (SELECT 1 FROM deleted_messages)
+       OR EXISTS (SELECT 1 FROM jobs) OR EXISTS (SELECT 1 FROM settings) AS found`
+    )
+    .one();
+  return found === 1;
+}
+
+export function clearMessages(sql: SqlStorage) {
+  sql.exec("DELETE FROM messages");
+}
+
+/**
+ * Moves the messages with `ids` (all of them when null) out of the
+ * conversation under `deletion`; returns how many were moved.
+ */
+export function trashMessages(
+  sql: SqlStorage,
+  deletion: string,
+  ids: string[] | null
+): number {
+  const where = ids ? `WHERE id IN (${ids.map(() => "?").join(", ")})` : "";
+  const params = ids ?? [];
+  const { count } = sql
+    .exec<{
+      count: number;
+    }>(`SELECT COUNT(*) AS count FROM messages ${where}`, ...params)
+    .one();
+  sql.exec(
+    `INSERT INTO deleted_messages (seq, id, role, ts, content, data, deletion)
+     SELECT seq, id, role, ts, content, data, ? FROM messages ${where}`,
+    deletion,
+    ...params
+  );
+  sql.exec(`DELETE FROM messages ${where}`, ...params);
+  return count;
+}
+
+/** Puts the messages of `deletion` back in their place */
+export function restoreMessages(sql: SqlStorage, deletion: string) {
+  sql.exec(
+    `INSERT OR IGNORE INTO messages (seq, id, role, ts, content, data)
+     SELECT seq, id, role, ts, content, data FROM deleted_messages
+     WHERE deletion = ?`,
+    deletion
+  );
+  sql.exec("DELETE FROM deleted_messages WHERE deletion = ?", deletion);
+}
+
+export function purgeMessages(sql: SqlStorage, deletion: string) {
+  sql.exec("DELETE FROM deleted_messages WHERE deletion = ?", deletion);
+}
+
+/** Drops every deletion along with its messages, so none can be undone */
+export function clearDeletions(sql: SqlStorage) {
+  sql.exec("DELETE FROM deleted_messages");
+  sql.exec("DELETE FROM deletions");
+}
+
+/** The branches not on screen, in the order their fork points were made */
+export function readForks(sql: SqlStorage): Fork[] {
+  return sql
+    .exec<{
+      parent_id: string | null;
+      tails: string;
+    }>("SELECT parent_id, tails FROM forks ORDER BY seq")
+    .toArray()
+    .map((row) => ({
+      parentId: row.parent_id,
+      tails: JSON.parse(row.tails) as HistoryMessage[][]
+    }));
+}
+
+/** Stores `forks` in place of the ones stored; fork points that did not change keep their row */
+export function writeForks(sql: SqlStorage, forks: Fork[]) {
+  const stored = readForks(sql);
+  const same = (a: Fork, b: Fork) =>
+    a.parentId === b.parentId &&
+    JSON.stringify(a.tails) === JSON.stringify(b.tails);
+  for (const fork of stored) {
+    if (forks.some((f) => same(f, fork))) continue;
+    sql.exec("DELETE FROM forks WHERE parent_id IS ?", fork.parentId);
+  }
+  for (const fork of forks) {
+    if (stored.some((f) => same(f, fork))) continue;
+    sql.exec(
+      "INSERT INTO forks (parent_id, tails) VALUES (?, ?)",
+      fork.parentId,
+      JSON.stringify(fork.tails)
+    );
+  }
+}
+
+export function clearForks(sql: SqlStorage) {
+  sql.exec("DELETE FROM forks");
+}
+
+/** Stores a deletion with whatever undoing it needs besides its messages */
+export function writeDeletion(sql: SqlStorage, deletion: Deletion) {
+  sql.exec(
+    "INSERT OR REPLACE INTO deletions (id, purge_at, data) VALUES (?, ?, ?)",
+    deletion.id,
+    deletion.purgeAt,
+    JSON.stringify(deletion)
+  );
+}
+
+/** Removes the deletion `id` and returns what was stored for it; null when there is none */
+export function removeDeletion<T extends Deletion>(
+  sql: SqlStorage,
+  id: string
+): T | null {
+  const [row] = sql
+    .exec<{ data: string }>("SELECT data FROM deletions WHERE id = ?", id)
+    .toArray();
+  if (!row) return null;
+  sql.exec("DELETE FROM deletions WHERE id = ?", id);
+  return JSON.parse(row.data) as T;
+}
+
+type JobRow = { data: string };
+
+export function readJobs(sql: SqlStorage): Job[] {
+  return sql
+    .exec<JobRow>("SELECT data FROM jobs ORDER BY run_at DESC")
+    .toArray()
+    .map((row) => JSON.parse(row.data) as Job);
+}
+
+export function readJob(sql: SqlStorage, id: string): Job | null {
+  const [row] = sql
+    .exec<JobRow>("SELECT data FROM jobs WHERE id = ?", id)
+    .toArray();
+  return row ? (JSON.parse(row.data) as Job) : null;
+}
+
+export function writeJob(sql: SqlStorage, job: Job) {
+  sql.exec(
+    "INSERT OR REPLACE INTO jobs (id, status, run_at, finished_at, data) VALUES (?, ?, ?, ?, ?)",
+    job.id,
+    job.status,
+    job.runAt,
+    job.finishedAt ?? null,
+    JSON.stringify(job)
+  );
+}
+
+export function deleteJob(sql: SqlStorage, id: string): boolean {
+  return sql.exec("DELETE FROM jobs WHERE id = ?", id).rowsWritten > 0;
+}
+
+/** Keeps the `keep` most recently finished jobs and removes older finished ones */
+export function evictFinishedJobs(sql: SqlStorage, keep: number) {
+  sql.exec(
+    `DELETE FROM jobs WHERE status IN ('done', 'failed') AND id NOT IN (
+      SELECT id FROM jobs WHERE status IN ('done', 'failed') ORDER BY finished_at DESC LIMIT ?
+    )`,
+    keep
+  );
+}
+
+export function clearJobs(sql: SqlStorage) {
+  sql.exec("DELETE FROM jobs");
+}
+
+export function readSettings(sql: SqlStorage): Partial<SessionSettings> {
+  const settings: Record<string, unknown> = {};
+  for (const row of sql.exec<{ key: string; value: string }>(
+    "SELECT key, value FROM settings"
+  )) {
+    settings[row.key] = JSON.parse(row.value);
+  }
+  return settings as Partial<SessionSettings>;
+}
+
+export function writeSettings(
+  sql: SqlStorage,
+  settings: Partial<SessionSettings>
+) {
+  for (const [key, value] of Object.entries(settings)) {
+    sql.exec(
+      "INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)",
+      key,
+      JSON.stringify(value)
+    );
+  }
+}
+
+type ShareRow = {
+  id: string;
+  created_at: number;
+  expires_at: number | null;
+  title: string | null;
+};
+
+/** Drops the links that expired by `now` along with their copies */
+function dropExpiredShares(sql: SqlStorage, now: number) {
+  sql.exec(
+    "DELETE FROM shared_messages WHERE share IN (SELECT id FROM shares WHERE expires_at <= ?)",
+    now
+  );
+  sql.exec("DELETE FROM shares WHERE expires_at <= ?", now);
+}
+
+/** The links still active at `now`, oldest first */
+export function readShares(sql: SqlStorage, now: number): ShareLink[] {
+  dropExpiredShares(sql, now);
+  return sql
+    .exec<ShareRow>("SELECT * FROM shares ORDER BY created_at")
+    .toArray()
+    .map((row) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at
+    }));
+}
+
+/** Stores `share` with the copy of the conversation it shows */
+export function writeShare(
+  sql: SqlStorage,
+  share: ShareLink,
+  title: string | null,
+  messages: TextMessage[]
+) {
+  sql.exec(
+    "INSERT INTO shares (id, created_at, expires_at, title) VALUES (?, ?, ?, ?)",
+    share.id,
+    share.createdAt,
+    share.expiresAt,
+    title
+  );
+  messages.forEach((m, seq) => {
+    sql.exec(
+      "INSERT INTO shared_messages (share, seq, data) VALUES (?, ?, ?)",
+      share.id,
+      seq,
+      JSON.stringify(m)
+    );
+  });
+}
+
+/** What the link `id` shows, or null once it was revoked or expired */
+export function readSharedConversation(
+  sql: SqlStorage,
+  id: string,
+  now: number
+): SharedConversation | null {
+  dropExpiredShares(sql, now);
+  const [row] = sql
+    .exec<ShareRow>("SELECT * FROM shares WHERE id = ?", id)
+    .toArray();
+  if (!row) return null;
+  const messages = sql
+    .exec<MessageRow>(
+      "SELECT data FROM shared_messages WHERE share = ? ORDER BY seq",
+      id
+    )
+    .toArray()
+    .map((m) => JSON.parse(m.data) as TextMessage);
+  return { title: row.title, sharedAt: row.created_at, messages };
+}
+
+/** Revokes every share link along with its copy */
+export function clearShares(sql: SqlStorage) {
+  sql.exec("DELETE FROM shared_messages");
+  sql.exec("DELETE FROM shares");
+}
+
+export function deleteShare(sql: SqlStorage, id: string): boolean {
+  sql.exec("DELETE FROM shared_messages WHERE share = ?", id);
+  return sql.exec("DELETE FROM shares WHERE id = ?", id).rowsWritten > 0;
+}
+
+/** The table `takeToken` keeps its buckets in; the Registry creates it too */
+export function createRateLimits(sql: SqlStorage) {
+  // `refilled_at` moves in whole refill steps, `used_at` on every request.
+  sql.exec(`CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT PRIMARY KEY,
+    tokens INTEGER NOT NULL,
+    refilled_at INTEGER NOT NULL,
+    used_at INTEGER NOT NULL
+  )`);
+  sql.exec(
+    "CREATE INDEX IF NOT EXISTS rate_limits_used ON rate_limits (used_at)"
+  );
+}
+
+/**
+ * Token bucket per client: `burst` requests at once, refilled at `ratePerMin`.
+ * False when the bucket is empty. Buckets unused for a few minutes are dropped.
+ */
+export function takeToken(
+  sql: SqlStorage,
+  key: string,
+  now: number,
+  ratePerMin: number,
+  burst: number
+): boolean {
+  sql.exec("DELETE FROM rate_limits WHERE used_at < ?", now - BUCKET_TTL_MS);
+  const [row] = sql
+    .exec<{
+      tokens: number;
+      last: number;
+    }>("SELECT tokens, refilled_at AS last FROM rate_limits WHERE key = ?", key)
+    .toArray();
+  const b = row ?? { tokens: burst, last: now };
+  const refill = 60000 / ratePerMin;
+  const add = Math.floor((now - b.last) / refill);
+  if (add > 0) {
+    b.tokens = Math.min(b.tokens + add, burst);
+    b.last = now;
+  }
+  const allowed = b.tokens > 0;
+  if (allowed) b.tokens -= 1;
+  sql.exec(
+    "INSERT OR REPLACE INTO rate_limits (key, tokens, refilled_at, used_at) VALUES (?, ?, ?, ?)",
+    key,
+    b.tokens,
+    b.last,
+    now
+  );
+  return allowed;
+}
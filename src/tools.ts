@@ -5,14 +5,21 @@
 import { tool, type ToolSet } from "ai";
 import { z } from "zod/v3";
 
-import { getCurrentAgent } from "agents";
+import { MCPClientManager } from "agents/mcp/client";
 import { scheduleSchema } from "agents/schedule";
 
-/** Minimal surface we rely on from the current agent (no `any`) */
+/**
+ * Minimal surface we rely on from the Chat Durable Object (no `any`).
+ * It is passed to `streamText` as `experimental_context`.
+ */
 type AgentLike = {
-  schedule?: (input: unknown, method: string, description: string) => unknown;
-  getSchedules?: () => unknown[] | undefined;
-  cancelSchedule?: (taskId: string) => Promise<unknown> | unknown;
+  schedule?: (
+    input: Date | number | string,
+    description: string
+  ) => Promise<unknown> | unknown;
+  getSchedules?: () => Promise<unknown[]> | unknown[] | undefined;
+  // false when no pending or paused task has that id
+  cancelSchedule?: (taskId: string) => Promise<boolean> | boolean;
 };
 
 /**
@@ -39,8 +46,8 @@ const getLocalTime = tool({
 const scheduleTask = tool({
   description: "A tool to schedule a task to be executed at a later time",
   inputSchema: scheduleSchema,
-  execute: async ({ when, description }) => {
-    const { agent } = getCurrentAgent() as { agent: AgentLike };
+  execute: async ({ when, description }, { experimental_context }) => {
+    const agent = experimental_context as AgentLike | undefined;
 
     const fail = (msg: string): never => {
       throw new Error(msg);
@@ -48,17 +55,17 @@ const scheduleTask = tool({
 
     if (when.type === "no-schedule") return "Not a valid schedule input";
 
-    const input: unknown =
-      when.type === "scheduled"
+    const input: Date | number | string =
+      (when.type === "scheduled"
         ? when.date
         : when.type === "delayed"
           ? when.delayInSeconds
           : when.type === "cron"
             ? when.cron
-            : fail("not a valid schedule input");
+            : undefined) ?? fail("not a valid schedule input");
 
     try {
-      agent?.schedule?.(input, "executeTask", description);
+      await agent?.schedule?.(input, description);
       return `Task scheduled for type "${when.type}" : ${String(input)}`;
     } catch (error) {
       console.error("error scheduling task", error);
@@ -70,10 +77,10 @@ const scheduleTask = tool({
 const getScheduledTasks = tool({
   description: "List all tasks that have been scheduled",
   inputSchema: z.object({}),
-  execute: async () => {
-    const { agent } = getCurrentAgent() as { agent: AgentLike };
+  execute: async (_input, { experimental_context }) => {
+    const agent = experimental_context as AgentLike | undefined;
     try {
-      const tasks = agent?.getSchedules?.();
+      const tasks = await agent?.getSchedules?.();
       if (!tasks || tasks.length === 0) return "No scheduled tasks found.";
       return tasks;
     } catch (error) {
@@ -88,10 +95,13 @@ const cancelScheduledTask = tool({
   inputSchema: z.object({
     taskId: z.string().describe("The ID of the task to cancel")
   }),
-  execute: async ({ taskId }) => {
-    const { agent } = getCurrentAgent() as { agent: AgentLike };
+  execute: async ({ taskId }, { experimental_context }) => {
+    const agent = experimental_context as AgentLike | undefined;
     try {
-      await agent?.cancelSchedule?.(taskId);
+      const canceled = await agent?.cancelSchedule?.(taskId);
+      if (!canceled) {
+        return `Error canceling task ${taskId}: no pending or paused task has this ID`;
+      }
       return `Task ${taskId} has been successfully canceled.`;
     } catch (error) {
       console.error("Error canceling scheduled task", error);
@@ -109,6 +119,35 @@ export const tools = {
   cancelScheduledTask
 } satisfies ToolSet;
 
+/**
+ * Tools of remote MCP servers, offered next to the ones above. The servers are
+ * the URLs in the `MCP_SERVERS` variable, separated by commas or spaces; each
+ * Chat connects to them the first time it needs its tools. A server that cannot
+ * be reached is left out until the object restarts.
+ */
+export class McpTools {
+  private mcp = new MCPClientManager("chat", "1.0.0");
+  private connecting = new Map<string, Promise<void>>();
+  private urls: string[];
+
+  constructor(servers: string | undefined) {
+    this.urls = (servers ?? "").split(/[\s,]+/).filter(Boolean);
+  }
+
+  async tools(): Promise<ToolSet> {
+    for (const url of this.urls) {
+      if (this.connecting.has(url)) continue;
+      const connected = this.mcp.connect(url).then(
+        () => {},
+        (error) => console.error("MCP server unreachable", url, error)
+      );
+      this.connecting.set(url, connected);
+    }
+    await Promise.all(this.connecting.values());
+    return this.mcp.getAITools();
+  }
+}
+
 /** Implementations for confirmation-required tools */
 export const executions = {
   getWeatherInformation: async ({ city }: { city: string }) => {
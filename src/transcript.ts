@@ -0,0 +1,380 @@
+/**
+ * Conversation export and import. A transcript carries the session's messages,
+ * settings (including the system prompt) and scheduled jobs.
+ *
+ * - json: one object, the lossless reference format
+ * - jsonl: a meta line, then one line per message and per job
+ * - md: readable Markdown; each entry is preceded by an HTML comment holding its
+ *   fields, so the file renders cleanly and still imports without loss
+ */
+import { assertCronInterval, isValidTimeZone, parseCron } from "./cron";
+import { parseRetention } from "./retention";
+import type { HistoryMessage, Job, JobStatus, SessionSettings } from "./shared";
+
+export type TranscriptFormat = "json" | "jsonl" | "md";
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ["json", "jsonl", "md"];
+
+export const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: "application/json",
+  jsonl: "application/x-ndjson",
+  md: "text/markdown; charset=utf-8"
+};
+
+export type Transcript = {
+  version: 1;
+  session: string | null;
+  exportedAt: number;
+  settings: Partial<SessionSettings>;
+  messages: HistoryMessage[];
+  jobs: Job[];
+};
+
+type Meta = Omit<Transcript, "messages" | "jobs">;
+
+const JOB_STATUSES: JobStatus[] = [
+  "pending",
+  "paused",
+  "running",
+  "done",
+  "failed"
+];
+
+// JSON inside an HTML comment must not contain the comment terminator
+function commentJson(value: unknown): string {
+  return JSON.stringify(value).replace(/-->/g, "--\\u003e");
+}
+
+function iso(ts: number): string {
+  return new Date(ts).toISOString();
+}
+
+function toMarkdown(t: Transcript): string {
+  const { messages, jobs, ...meta } = t;
+  const out: string[] = [
+    `<!-- transcript ${commentJson(meta)} -->`,
+    "# Chat transcript",
+    "",
+    [
+      t.session ? `Session \`${t.session}\`` : null,
+      `exported ${iso(t.exportedAt)}`,
+      t.settings.model ? `model \`${t.settings.model}\`` : null
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    ""
+  ];
+  if (t.settings.systemPrompt) {
+    out.push("## System prompt", "");
+    out.push(...t.settings.systemPrompt.split("\n").map((l) => `> ${l}`), "");
+  }
+
+  out.push("## Messages", "");
+  for (const m of messages) {
+    if (m.role === "tool-call" || m.role === "tool-result") {
+      const title = m.role === "tool-call" ? "Tool call" : "Tool result";
+      const body = m.role === "tool-call" ? m.input : m.output;
+      out.push(
+        `<!-- message ${commentJson(m)} -->`,
+        `### ${title} · ${m.toolName} · ${iso(m.ts)}`,
+        "",
+        "```json",
+        JSON.stringify(body, null, 2) ?? "null",
+        "```",
+        ""
+      );
+    } else {
+      const { content, ...fields } = m;
+      const who = m.role[0].toUpperCase() + m.role.slice(1);
+      const stopped = m.interrupted ? " · stopped" : m.error ? " · failed" : "";
+      out.push(
+        `<!-- message ${commentJson(fields)} -->`,
+        `### ${who} · ${iso(m.ts)}${stopped}`,
+        "",
+        content,
+        ""
+      );
+    }
+  }
+  out.push("<!-- end messages -->", "");
+
+  if (jobs.length > 0) {
+    out.push("## Scheduled jobs", "", `<!-- jobs ${commentJson(jobs)} -->`);
+    for (const j of jobs) {
+      const when = j.cron ? `\`${j.cron}\` (${j.timeZone})` : iso(j.runAt);
+      out.push(`- **${j.status}** · ${when} — ${j.prompt.split("\n")[0]}`);
+    }
+    out.push("");
+  }
+  return out.join("\n");
+}
+
+export function serializeTranscript(
+  t: Transcript,
+  format: TranscriptFormat
+): string {
+  if (format === "md") return toMarkdown(t);
+  if (format === "jsonl") {
+    const { messages, jobs, ...meta } = t;
+    return [
+      JSON.stringify({ type: "meta", ...meta }),
+      ...messages.map((message) =>
+        JSON.stringify({ type: "message", message })
+      ),
+      ...jobs.map((job) => JSON.stringify({ type: "job", job }))
+    ].join("\n");
+  }
+  return JSON.stringify(t, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asMessage(value: unknown, index: number): HistoryMessage {
+  const fail = (why: string): never => {
+    throw new Error(`message ${index + 1}: ${why}`);
+  };
+  if (!isRecord(value)) return fail("not an object");
+  const { id, role, ts } = value;
+  if (typeof id !== "string" || !id) return fail("missing id");
+  if (typeof ts !== "number" || !Number.isFinite(ts)) return fail("missing ts");
+  // checked against the other entries by parseTranscript
+  const parent =
+    typeof value.parentId === "string" || value.parentId === null
+      ? { parentId: value.parentId }
+      : {};
+
+  if (role === "user" || role === "assistant" || role === "system") {
+    if (typeof value.content !== "string") return fail("missing content");
+    return {
+      id,
+      role,
+      content: value.content,
+      ts,
+      ...(value.interrupted === true ? { interrupted: true } : {}),
+      ...(typeof value.error === "string" ? { error: value.error } : {}),
+      ...parent
+    };
+  }
+  if (role === "tool-call" || role === "tool-result") {
+    const { toolCallId, toolName } = value;
+    if (typeof toolCallId !== "string" || typeof toolName !== "string") {
+      return fail("missing toolCallId or toolName");
+    }
+    return role === "tool-call"
+      ? {
+          id,
+          role,
+          toolCallId,
+          toolName,
+          input: value.input,
+          ...(value.needsApproval === true ? { needsApproval: true } : {}),
+          ts,
+          ...parent
+        }
+      : {
+          id,
+          role,
+          toolCallId,
+          toolName,
+          output: value.output,
+          ...(value.isError === true ? { isError: true } : {}),
+          ts,
+          ...parent
+        };
+  }
+  return fail(`unknown role ${JSON.stringify(role)}`);
+}
+
+function asJob(value: unknown, index: number): Job {
+  const fail = (why: string): never => {
+    throw new Error(`job ${index + 1}: ${why}`);
+  };
+  if (!isRecord(value)) return fail("not an object");
+  const { id, runAt, prompt, status, createdAt, cron, timeZone } = value;
+  if (typeof id !== "string" || !id) return fail("missing id");
+  if (typeof runAt !== "number" || !Number.isFinite(runAt)) {
+    return fail("missing runAt");
+  }
+  if (typeof prompt !== "string" || !prompt) return fail("missing prompt");
+  if (!JOB_STATUSES.includes(status as JobStatus)) return fail("bad status");
+  const job: Job = {
+    id,
+    runAt,
+    prompt,
+    status: status as JobStatus,
+    createdAt: typeof createdAt === "number" ? createdAt : runAt
+  };
+  if (cron !== undefined) {
+    if (typeof cron !== "string") return fail("bad cron");
+    try {
+      assertCronInterval(parseCron(cron));
+    } catch (e) {
+      return fail(e instanceof Error ? e.message : String(e));
+    }
+    if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+      return fail("bad timeZone");
+    }
+    job.cron = cron;
+    job.timeZone = timeZone;
+  }
+  for (const key of ["startedAt", "finishedAt"] as const) {
+    if (typeof value[key] === "number") job[key] = value[key];
+  }
+  for (const key of ["outputMessageId", "error"] as const) {
+    if (typeof value[key] === "string") job[key] = value[key];
+  }
+  return job;
+}
+
+function asMeta(value: unknown): Meta {
+  if (!isRecord(value) || value.version !== 1) {
+    throw new Error("unsupported transcript version");
+  }
+  const settings: Partial<SessionSettings> = {};
+  if (isRecord(value.settings)) {
+    const { model, systemPrompt, persona, timeZone, retention } =
+      value.settings;
+    if (typeof model === "string") settings.model = model;
+    if (typeof systemPrompt === "string") settings.systemPrompt = systemPrompt;
+    if (typeof persona === "string" || persona === null) {
+      settings.persona = persona;
+    }
+    if (typeof timeZone === "string") settings.timeZone = timeZone;
+    const policy = parseRetention(retention);
+    if (policy) settings.retention = policy;
+  }
+  return {
+    version: 1,
+    session: typeof value.session === "string" ? value.session : null,
+    exportedAt: typeof value.exportedAt === "number" ? value.exportedAt : 0,
+    settings
+  };
+}
+
+function toArray(value: unknown, what: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`${what} must be an array`);
+  return value;
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseJsonOrThrow(text: string, what: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${what} is not valid JSON`);
+  }
+}
+
+function fromMarkdown(text: string): Transcript {
+  const header = text
+    .slice(0, text.indexOf("\n"))
+    .match(/^<!-- transcript (.*) -->$/);
+  if (!header) throw new Error("not a transcript export");
+  const end = text.lastIndexOf("\n<!-- end messages -->");
+  if (end === -1) throw new Error("transcript has no end of messages marker");
+
+  const messages: unknown[] = [];
+  const markers = [
+    ...text.slice(0, end + 1).matchAll(/^<!-- message (.*) -->\n/gm)
+  ];
+  markers.forEach((marker, i) => {
+    const fields = parseJsonOrThrow(marker[1], `message ${i + 1}`);
+    if (!isRecord(fields)) {
+      messages.push(fields);
+      return;
+    }
+    if (fields.role === "tool-call" || fields.role === "tool-result") {
+      messages.push(fields);
+      return;
+    }
+    // `### header\n\n<content>\n\n` up to the next marker
+    const start = (marker.index ?? 0) + marker[0].length;
+    const stop = markers[i + 1]?.index ?? end + 1;
+    const section = text.slice(start, stop);
+    const content = section.slice(section.indexOf("\n\n") + 2, -2);
+    messages.push({ ...fields, content });
+  });
+
+  const jobs = text.slice(end).match(/^<!-- jobs (.*) -->$/m);
+  return {
+    ...asMeta(parseJsonOrThrow(header[1], "transcript header")),
+    messages: messages.map(asMessage),
+    jobs: jobs
+      ? toArray(parseJsonOrThrow(jobs[1], "jobs"), "jobs").map(asJob)
+      : []
+  };
+}
+
+function readTranscript(text: string): Transcript {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("<!-- transcript ")) return fromMarkdown(trimmed);
+
+  const lines = trimmed.split("\n").filter((l) => l.trim());
+  const first = lines.length > 0 ? safeParse(lines[0]) : undefined;
+  if (isRecord(first) && first.type === "meta") {
+    const messages: unknown[] = [];
+    const jobs: unknown[] = [];
+    lines.slice(1).forEach((line, i) => {
+      const entry = parseJsonOrThrow(line, `line ${i + 2}`);
+      if (isRecord(entry) && entry.type === "message") {
+        messages.push(entry.message);
+      } else if (isRecord(entry) && entry.type === "job") {
+        jobs.push(entry.job);
+      } else {
+        throw new Error(`line ${i + 2}: expected a message or job`);
+      }
+    });
+    return {
+      ...asMeta(first),
+      messages: messages.map(asMessage),
+      jobs: jobs.map(asJob)
+    };
+  }
+
+  const value = parseJsonOrThrow(trimmed, "file");
+  if (!isRecord(value)) throw new Error("not a transcript export");
+  return {
+    ...asMeta(value),
+    messages: toArray(value.messages, "messages").map(asMessage),
+    jobs: toArray(value.jobs ?? [], "jobs").map(asJob)
+  };
+}
+
+/** `messages` without the branch links that do not point to an earlier entry */
+function withEarlierParents(messages: HistoryMessage[]): HistoryMessage[] {
+  const earlier = new Set<string>();
+  return messages.map((m) => {
+    const { parentId, ...rest } = m;
+    const dangling = typeof parentId === "string" && !earlier.has(parentId);
+    earlier.add(m.id);
+    return dangling ? (rest as HistoryMessage) : m;
+  });
+}
+
+/**
+ * Reads a transcript in any export format (detected from the content) and
+ * validates every entry. Throws an Error describing the first problem found.
+ */
+export function parseTranscript(text: string): Transcript {
+  const transcript = readTranscript(text);
+  for (const [what, items] of [
+    ["message", transcript.messages],
+    ["job", transcript.jobs]
+  ] as const) {
+    const ids = new Set<string>();
+    for (const { id } of items) {
+      if (ids.has(id)) throw new Error(`duplicate ${what} id ${id}`);
+      ids.add(id);
+    }
+  }
+  return { ...transcript, messages: withEarlierParents(transcript.messages) };
+}
@@ -1,122 +1,84 @@
-// via https://github.com/vercel/ai/blob/main/examples/next-openai/app/api/use-chat-human-in-the-loop/utils.ts
+// adapted from https://github.com/vercel/ai/blob/main/examples/next-openai/app/api/use-chat-human-in-the-loop/utils.ts
 
-import type {
-  UIMessage,
-  UIMessageStreamWriter,
-  ToolSet,
-  ToolCallOptions
-} from "ai";
-import { convertToModelMessages, isToolUIPart } from "ai";
-import { APPROVAL } from "./shared";
+import type { ModelMessage, ToolCallOptions } from "ai";
+import { APPROVAL, type HistoryMessage } from "./shared";
 
-function isValidToolName<K extends PropertyKey, T extends object>(
-  key: K,
-  obj: T
-): key is K & keyof T {
-  return key in obj;
+type ToolCallEntry = Extract<HistoryMessage, { role: "tool-call" }>;
+
+/**
+ * Tool calls that are still waiting for a human decision (no result stored yet).
+ */
+export function pendingToolCalls(history: HistoryMessage[]): ToolCallEntry[] {
+  const answered = new Set(
+    history.flatMap((m) => (m.role === "tool-result" ? [m.toolCallId] : []))
+  );
+  return history.filter(
+    (m): m is ToolCallEntry =>
+      m.role === "tool-call" && !!m.needsApproval && !answered.has(m.toolCallId)
+  );
 }
 
 /**
  * Processes tool invocations where human input is required, executing tools when authorized.
+ * Returns the tool-result entries to append to the history.
  */
-export async function processToolCalls<Tools extends ToolSet>({
-  dataStream,
+export async function processToolCalls({
+  history,
+  decisions,
   messages,
   executions
 }: {
-  tools: Tools; // used for type inference
-  dataStream: UIMessageStreamWriter;
-  messages: UIMessage[];
+  history: HistoryMessage[];
+  decisions: Record<string, string>; // toolCallId -> APPROVAL.YES | APPROVAL.NO
+  messages: ModelMessage[];
   executions: Record<
     string,
     // biome-ignore lint/suspicious/noExplicitAny: needs a better type
     (args: any, context: ToolCallOptions) => Promise<unknown>
   >;
-}): Promise<UIMessage[]> {
-  // Process all messages, not just the last one
-  const processedMessages = await Promise.all(
-    messages.map(async (message) => {
-      const parts = message.parts;
-      if (!parts) return message;
-
-      const processedParts = await Promise.all(
-        parts.map(async (part) => {
-          // Only process tool UI parts
-          if (!isToolUIPart(part)) return part;
-
-          const toolName = part.type.replace(
-            "tool-",
-            ""
-          ) as keyof typeof executions;
-
-          // Only process tools that require confirmation (are in executions object) and are in 'input-available' state
-          if (!(toolName in executions) || part.state !== "output-available")
-            return part;
-
-          let result: unknown;
-
-          if (part.output === APPROVAL.YES) {
-            // User approved the tool execution
-            if (!isValidToolName(toolName, executions)) {
-              return part;
-            }
-
-            const toolInstance = executions[toolName];
-            if (toolInstance) {
-              result = await toolInstance(part.input, {
-                messages: convertToModelMessages(messages),
-                toolCallId: part.toolCallId
-              });
-            } else {
-              result = "Error: No execute function found on tool";
-            }
-          } else if (part.output === APPROVAL.NO) {
-            result = "Error: User denied access to tool execution";
-          } else {
-            // If no approval input yet, leave the part as-is for user interaction
-            return part;
-          }
-
-          // Forward updated tool result to the client.
-          dataStream.write({
-            type: "tool-output-available",
-            toolCallId: part.toolCallId,
-            output: result
+}): Promise<HistoryMessage[]> {
+  const results: HistoryMessage[] = [];
+
+  for (const call of pendingToolCalls(history)) {
+    const decision = decisions[call.toolCallId];
+    // If no approval input yet, leave the call as-is for user interaction
+    if (decision !== APPROVAL.YES && decision !== APPROVAL.NO) continue;
+
+    let output: unknown;
+    let isError = false;
+
+    if (decision === APPROVAL.YES) {
+      // User approved the tool execution
+      const toolInstance = executions[call.toolName];
+      if (toolInstance) {
+        try {
+          output = await toolInstance(call.input, {
+            messages,
+            toolCallId: call.toolCallId
           });
-
-          // Return updated tool part with the actual result.
-          return {
-            ...part,
-            output: result
-          };
-        })
-      );
-
-      return { ...message, parts: processedParts };
-    })
-  );
-
-  return processedMessages;
-}
-
-/**
- * Clean up incomplete tool calls from messages before sending to API
- * Prevents API errors from interrupted or failed tool executions
- */
-export function cleanupMessages(messages: UIMessage[]): UIMessage[] {
-  return messages.filter((message) => {
-    if (!message.parts) return true;
-
-    // Filter out messages with incomplete tool calls
-    const hasIncompleteToolCall = message.parts.some((part) => {
-      if (!isToolUIPart(part)) return false;
-      // Remove tool calls that are still streaming or awaiting input without results
-      return (
-        part.state === "input-streaming" ||
-        (part.state === "input-available" && !part.output && !part.errorText)
-      );
+        } catch (error) {
+          output = `Error: ${error instanceof Error ? error.message : String(error)}`;
+          isError = true;
+        }
+      } else {
+        output = "Error: No execute function found on tool";
+        isError = true;
+      }
+    } else {
+      output = "Error: User denied access to tool execution";
+      isError = true;
+    }
+
+    results.push({
+      id: crypto.randomUUID(),
+      role: "tool-result",
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      output,
+      ...(isError ? { isError } : {}),
+      ts: Date.now()
     });
+  }
 
-    return !hasIncompleteToolCall;
-  });
+  return results;
 }
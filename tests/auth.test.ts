@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { accountOwner, sign, signJson, verify, verifyJson } from "../src/auth";
+
+describe("auth", () => {
+  it("verifies signed values and rejects tampered or foreign ones", async () => {
+    const signed = await sign("anon:abc", "secret");
+    expect(await verify(signed, "secret")).toBe("anon:abc");
+    expect(await verify(signed, "other secret")).toBeNull();
+    expect(await verify(signed.replace("abc", "abd"), "secret")).toBeNull();
+    expect(await verify("anon:abc", "secret")).toBeNull();
+  });
+
+  it("round-trips signed JSON and derives one owner per email", async () => {
+    const signed = await signJson({ email: "a@b.co", exp: 1 }, "secret");
+    expect(await verifyJson(signed, "secret")).toEqual({
+      email: "a@b.co",
+      exp: 1
+    });
+    expect(await accountOwner(" A@B.co ")).toBe(await accountOwner("a@b.co"));
+    expect(await accountOwner("a@b.co")).toMatch(/^acct:/);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  branchPoints,
+  branchesOf,
+  forkAt,
+  linkParents,
+  pruneForks,
+  switchBranch
+} from "../src/branches";
+import type { HistoryMessage } from "../src/shared";
+
+const msg = (
+  id: string,
+  role: "user" | "assistant",
+  ts: number
+): HistoryMessage => ({ id, role, content: id, ts });
+
+describe("branches", () => {
+  it("keeps edited and regenerated turns as switchable branches", () => {
+    const history = linkParents(
+      [],
+      [msg("u1", "user", 1), msg("a1", "assistant", 2)]
+    );
+    expect(history.map((m) => m.parentId)).toEqual([null, "u1"]);
+
+    // Regenerate a1: it moves into a fork after u1 and a new reply follows.
+    const regenerated = forkAt(history, [], 1);
+    const next = [
+      ...regenerated.history,
+      ...linkParents(regenerated.history, [msg("a2", "assistant", 3)])
+    ];
+    expect(next.map((m) => m.id)).toEqual(["u1", "a2"]);
+    expect(branchesOf(next, branchPoints(regenerated.forks))).toEqual({
+      a2: { index: 1, count: 2, ids: ["a1", "a2"] }
+    });
+
+    const back = switchBranch(next, regenerated.forks, "a1");
+    expect(back?.history.map((m) => m.id)).toEqual(["u1", "a1"]);
+    expect(
+      branchesOf(back?.history ?? [], branchPoints(back?.forks ?? []))
+    ).toEqual({
+      a1: { index: 0, count: 2, ids: ["a1", "a2"] }
+    });
+    expect(switchBranch(next, regenerated.forks, "nope")).toBeNull();
+  });
+
+  it("drops forks whose fork point was pruned", () => {
+    const forks = [
+      { parentId: "gone", tails: [[msg("x", "assistant", 1)]] },
+      { parentId: "x", tails: [[msg("y", "user", 2)]] },
+      { parentId: "u1", tails: [[msg("z", "assistant", 3)]] }
+    ];
+    const history = [msg("u1", "user", 4)];
+    expect(pruneForks(history, forks).map((f) => f.parentId)).toEqual(["u1"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkByTokens,
+  estimateTokens,
+  fitToBudget,
+  historyBudget,
+  pendingForSummary
+} from "../src/context";
+import { getModel } from "../src/models";
+import type { HistoryMessage } from "../src/shared";
+
+function text(id: string, content: string, ts = 0): HistoryMessage {
+  return { id, role: "user", content, ts };
+}
+
+describe("context window", () => {
+  it("keeps the most recent messages that fit the budget", () => {
+    const history = [
+      text("a", "x".repeat(400)),
+      text("b", "y".repeat(400)),
+      text("c", "z".repeat(40))
+    ];
+    const { messages, dropped } = fitToBudget(history, 120);
+    expect(messages.map((m) => m.id)).toEqual(["b", "c"]);
+    expect(dropped.map((m) => m.id)).toEqual(["a"]);
+  });
+
+  it("always keeps the latest message even when it is over budget", () => {
+    const history = [text("a", "short"), text("b", "x".repeat(10_000))];
+    expect(fitToBudget(history, 10).messages.map((m) => m.id)).toEqual(["b"]);
+  });
+
+  it("does not start the window on an orphaned tool result", () => {
+    const history: HistoryMessage[] = [
+      {
+        id: "call",
+        role: "tool-call",
+        toolCallId: "t1",
+        toolName: "getLocalTime",
+        input: { location: "x".repeat(400) },
+        ts: 0
+      },
+      {
+        id: "result",
+        role: "tool-result",
+        toolCallId: "t1",
+        toolName: "getLocalTime",
+        output: "10am",
+        ts: 0
+      },
+      text("c", "what time is it?")
+    ];
+    expect(fitToBudget(history, 30).messages.map((m) => m.id)).toEqual(["c"]);
+  });
+
+  it("reserves room for the system prompt and the reply", () => {
+    const model = getModel();
+    const budget = historyBudget(model, "x".repeat(400));
+    expect(budget).toBe(
+      model.contextWindow - 4096 - estimateTokens("x".repeat(400))
+    );
+  });
+
+  it("only summarizes dropped messages past the last summarized one", () => {
+    const history = ["a", "b", "c", "d"].map((id) => text(id, id));
+    expect(pendingForSummary(history, 3).map((m) => m.id)).toEqual([
+      "a",
+      "b",
+      "c"
+    ]);
+    expect(
+      pendingForSummary(history, 3, { upTo: "a" }).map((m) => m.id)
+    ).toEqual(["b", "c"]);
+    expect(pendingForSummary(history, 3, { upTo: "c" })).toEqual([]);
+  });
+
+  it("ends the summary at the pruned message's time", () => {
+    const history = [text("c", "c", 3), text("d", "d", 4), text("e", "e", 5)];
+    expect(
+      pendingForSummary(history, 2, { upTo: "b", upToTs: 3 }).map((m) => m.id)
+    ).toEqual(["d"]);
+    // Summaries stored before the timestamp was kept
+    expect(
+      pendingForSummary(history, 2, { upTo: "b" }).map((m) => m.id)
+    ).toEqual(["c", "d"]);
+  });
+
+  it("splits summary input into chunks that fit", () => {
+    const history = ["a", "b", "c"].map((id) => text(id, "x".repeat(40)));
+    const chunks = chunkByTokens(history, 30);
+    expect(chunks.map((c) => c.map((m) => m.id))).toEqual([["a", "b"], ["c"]]);
+  });
+});
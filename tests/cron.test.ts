@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  MIN_CRON_INTERVAL_MS,
+  cronInterval,
+  nextCronRun,
+  parseCron
+} from "../src/cron";
+
+const at = (iso: string) => new Date(iso).getTime();
+const iso = (ts: number) => new Date(ts).toISOString();
+
+describe("cron", () => {
+  it("parses lists, ranges, steps and names", () => {
+    const cron = parseCron("*/15 9-17 1,15 jan-mar mon-fri");
+    expect(cron.minutes).toEqual([0, 15, 30, 45]);
+    expect(cron.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron("0 0 * * 7").weekdays]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(/5 cron fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/minute/);
+    expect(() => parseCron("* * * * 1-")).toThrow(/day of week/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/step/);
+    expect(() => parseCron("0 0 30 2 *")).not.toThrow();
+    expect(() => nextCronRun(parseCron("0 0 30 2 *"), 0)).toThrow(/never/);
+  });
+
+  it("measures the shortest time between runs", () => {
+    const minutes = (cron: string) => cronInterval(parseCron(cron)) / 60_000;
+    expect(minutes("* * * * *")).toBe(1);
+    expect(minutes("*/15 9-17 * * *")).toBe(15);
+    expect(minutes("0 9 * * 1-5")).toBe(24 * 60);
+    // 23:59 is followed by 0:00 the next day
+    expect(minutes("0,59 0,23 * * *")).toBe(1);
+    expect(minutes("@hourly") * 60_000).toBeGreaterThanOrEqual(
+      MIN_CRON_INTERVAL_MS
+    );
+  });
+
+  it("finds the next run strictly after the given time", () => {
+    const hourly = parseCron("@hourly");
+    expect(iso(nextCronRun(hourly, at("2025-01-01T10:00:00Z")))).toBe(
+      "2025-01-01T11:00:00.000Z"
+    );
+    expect(iso(nextCronRun(hourly, at("2025-01-01T10:59:30Z")))).toBe(
+      "2025-01-01T11:00:00.000Z"
+    );
+  });
+
+  it("skips weekends for weekday schedules", () => {
+    // 2025-01-03 is a Friday
+    const cron = parseCron("0 9 * * 1-5");
+    expect(iso(nextCronRun(cron, at("2025-01-03T10:00:00Z")))).toBe(
+      "2025-01-06T09:00:00.000Z"
+    );
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // the 13th, or any Friday
+    const cron = parseCron("0 0 13 * 5");
+    expect(iso(nextCronRun(cron, at("2025-01-01T00:00:00Z")))).toBe(
+      "2025-01-03T00:00:00.000Z"
+    );
+    expect(iso(nextCronRun(cron, at("2025-01-11T00:00:00Z")))).toBe(
+      "2025-01-13T00:00:00.000Z"
+    );
+  });
+
+  it("keeps wall-clock time in the job's time zone across DST", () => {
+    const cron = parseCron("0 9 * * *");
+    const tz = "America/New_York";
+    // EST (UTC-5) before 2025-03-09, EDT (UTC-4) after
+    expect(iso(nextCronRun(cron, at("2025-03-08T15:00:00Z"), tz))).toBe(
+      "2025-03-09T13:00:00.000Z"
+    );
+    expect(iso(nextCronRun(cron, at("2025-03-07T15:00:00Z"), tz))).toBe(
+      "2025-03-08T14:00:00.000Z"
+    );
+    // 02:30 does not exist on the spring-forward day
+    expect(
+      iso(nextCronRun(parseCron("30 2 * * *"), at("2025-03-08T12:00:00Z"), tz))
+    ).toBe("2025-03-10T06:30:00.000Z");
+  });
+});
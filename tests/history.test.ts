@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { withLatestPage, withOlderPage } from "../src/history";
+import type { HistoryMessage } from "../src/shared";
+
+const msg = (id: string, ts: number): HistoryMessage => ({
+  id,
+  role: "user",
+  content: id,
+  ts
+});
+
+describe("history pages", () => {
+  it("folds the latest page into the loaded history", () => {
+    const loaded = [msg("a", 1), msg("b", 2), msg("c", 3)];
+    expect(
+      withLatestPage(loaded, [msg("b", 2), msg("c", 3), msg("d", 4)])?.map(
+        (m) => m.id
+      )
+    ).toEqual(["a", "b", "c", "d"]);
+    // A regenerated reply replaces the end of the page.
+    expect(
+      withLatestPage(loaded, [msg("b", 2), msg("x", 5)])?.map((m) => m.id)
+    ).toEqual(["a", "b", "x"]);
+    expect(withLatestPage(loaded, [msg("y", 6), msg("z", 7)])).toBeNull();
+    expect(withLatestPage(loaded, [])).toBeNull();
+  });
+
+  it("puts older entries in front without repeating any", () => {
+    const loaded = [msg("c", 3), msg("d", 4)];
+    expect(
+      withOlderPage(loaded, [msg("a", 1), msg("b", 2), msg("c", 3)]).map(
+        (m) => m.id
+      )
+    ).toEqual(["a", "b", "c", "d"]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeRetention,
+  parseRetention,
+  retentionLimits
+} from "../src/retention";
+
+describe("retention", () => {
+  it("accepts the five policies and rejects anything else", () => {
+    expect(parseRetention({ mode: "days", days: 30 })).toEqual({
+      mode: "days",
+      days: 30
+    });
+    expect(parseRetention({ mode: "messages", count: 500, extra: 1 })).toEqual({
+      mode: "messages",
+      count: 500
+    });
+    expect(parseRetention({ mode: "ephemeral", days: 3 })).toEqual({
+      mode: "ephemeral"
+    });
+    expect(parseRetention({ mode: "default" })).toEqual({ mode: "default" });
+    expect(parseRetention({ mode: "days", days: 0 })).toBeNull();
+    expect(parseRetention({ mode: "messages", count: 2.5 })).toBeNull();
+    expect(parseRetention({ mode: "weeks" })).toBeNull();
+    expect(parseRetention("forever")).toBeNull();
+  });
+
+  it("turns a policy into what the prune deletes", () => {
+    const now = 10 * 24 * 60 * 60 * 1000;
+    expect(retentionLimits({ mode: "days", days: 7 }, now)).toEqual({
+      before: 3 * 24 * 60 * 60 * 1000,
+      keep: null
+    });
+    expect(retentionLimits({ mode: "messages", count: 50 }, now)).toEqual({
+      before: null,
+      keep: 50
+    });
+    // the limits that applied before sessions had a policy
+    expect(retentionLimits({ mode: "default" }, now)).toEqual({
+      before: now - 14 * 24 * 60 * 60 * 1000,
+      keep: 300
+    });
+    expect(retentionLimits({ mode: "forever" }, now)).toEqual({
+      before: null,
+      keep: null
+    });
+    expect(retentionLimits({ mode: "ephemeral" }, now)).toBeNull();
+    expect(describeRetention({ mode: "days", days: 1 })).toBe("kept for 1 day");
+  });
+});
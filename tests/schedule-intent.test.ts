@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { looksLikeSchedule } from "../src/schedule-intent";
+
+describe("schedule intent", () => {
+  it("recognizes requests for something to happen later", () => {
+    for (const text of [
+      "remind me tomorrow at 8am to review the PR",
+      "Please remind me in 2 minutes to stretch",
+      "set a reminder for Friday",
+      "every weekday at 9:00 summarize yesterday's chat",
+      "Every 2 hours, remind me to drink water",
+      "tomorrow at noon remind me to call Sam"
+    ]) {
+      expect(looksLikeSchedule(text), text).toBe(true);
+    }
+  });
+
+  it("leaves ordinary messages alone", () => {
+    for (const text of [
+      "remind me how regular expressions work",
+      "what does every do in Array.prototype?",
+      "in 2 minutes I'll be back",
+      "Can you schedule-proof this plan?"
+    ]) {
+      expect(looksLikeSchedule(text), text).toBe(false);
+    }
+  });
+});
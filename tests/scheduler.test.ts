@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  dueTasks,
+  isIsoDate,
+  oneOffRunAt,
+  removeTask,
+  retryDelay,
+  upsertTask,
+  type Task
+} from "../src/scheduler";
+
+const job = (jobId: string, at: number, attempt = 0): Task => ({
+  id: `job:${jobId}`,
+  type: "job",
+  jobId,
+  at,
+  attempt
+});
+
+describe("scheduler queue", () => {
+  it("keeps tasks ordered by time", () => {
+    let queue: Task[] = [];
+    queue = upsertTask(queue, job("b", 200));
+    queue = upsertTask(queue, { id: "prune", type: "prune", at: 300 });
+    queue = upsertTask(queue, job("a", 100));
+    expect(queue.map((t) => t.id)).toEqual(["job:a", "job:b", "prune"]);
+  });
+
+  it("replaces a task with the same id instead of duplicating it", () => {
+    let queue = [job("a", 100), job("b", 200)];
+    queue = upsertTask(queue, job("a", 300, 1));
+    expect(queue.map((t) => [t.id, t.at])).toEqual([
+      ["job:b", 200],
+      ["job:a", 300]
+    ]);
+    expect(removeTask(queue, "job:b").map((t) => t.id)).toEqual(["job:a"]);
+  });
+
+  it("returns only due tasks", () => {
+    const queue = [job("a", 100), job("b", 200)];
+    expect(dueTasks(queue, 150).map((t) => t.id)).toEqual(["job:a"]);
+  });
+
+  it("backs off exponentially up to an hour", () => {
+    expect(retryDelay(1)).toBe(60_000);
+    expect(retryDelay(3)).toBe(240_000);
+    expect(retryDelay(20)).toBe(60 * 60 * 1000);
+  });
+
+  it("reads one-off times and rejects those that have passed", () => {
+    const now = Date.UTC(2025, 0, 2, 12);
+    expect(oneOffRunAt(60, now)).toBe(now + 60_000);
+    expect(oneOffRunAt(new Date(now + 1000), now)).toBe(now + 1000);
+    expect(oneOffRunAt("2025-01-03T08:00:00Z", now)).toBe(
+      Date.UTC(2025, 0, 3, 8)
+    );
+    expect(() => oneOffRunAt(new Date(now - 1000), now)).toThrow(/passed/);
+    expect(() => oneOffRunAt("2025-01-01T08:00:00Z", now)).toThrow(/passed/);
+    expect(() => oneOffRunAt(0, now)).toThrow(/passed/);
+    expect(() => oneOffRunAt("2025-13-45", now)).toThrow(/not a valid/);
+    expect(isIsoDate("2025-01-03")).toBe(true);
+    expect(isIsoDate("0 9 * * 1-5")).toBe(false);
+  });
+});
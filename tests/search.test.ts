@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { snippetParts, toFtsQuery } from "../src/search";
+
+describe("search", () => {
+  it("quotes every word and matches the last one as a prefix", () => {
+    expect(toFtsQuery('  that regex "\\d+"  ')).toBe(
+      '"that" "regex" """\\d+"""*'
+    );
+    expect(toFtsQuery("OR NEAR(")).toBe('"OR" "NEAR("*');
+    expect(toFtsQuery("   ")).toBeNull();
+  });
+
+  it("splits a marked snippet into plain and matched parts", () => {
+    expect(
+      snippetParts("…use a \u0002regex\u0003 like \u0002regex\u0003")
+    ).toEqual([
+      { text: "…use a ", match: false },
+      { text: "regex", match: true },
+      { text: " like ", match: false },
+      { text: "regex", match: true }
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { activityOf, listSessions, newSession } from "../src/sessions";
+import type { HistoryMessage } from "../src/shared";
+
+describe("sessions", () => {
+  it("lists pinned sessions first, then by last activity", () => {
+    const sessions = [
+      { ...newSession("a", 1), lastActivity: 10 },
+      { ...newSession("b", 1), lastActivity: 30 },
+      { ...newSession("c", 1), lastActivity: 20, pinned: true },
+      { ...newSession("d", 1), lastActivity: 40, archived: true }
+    ];
+    expect(listSessions(sessions, {}).map((s) => s.id)).toEqual([
+      "c",
+      "b",
+      "a"
+    ]);
+    expect(listSessions(sessions, { archived: true }).map((s) => s.id)).toEqual(
+      ["d"]
+    );
+  });
+
+  it("searches titles and takes the automatic title from the first user message", () => {
+    const history: HistoryMessage[] = [
+      { id: "1", role: "user", content: "  Plan a trip\nto Lisbon", ts: 5 },
+      { id: "2", role: "assistant", content: "Sure", ts: 6 },
+      {
+        id: "3",
+        role: "tool-call",
+        toolCallId: "t",
+        toolName: "getWeather",
+        input: {},
+        ts: 7
+      }
+    ];
+    const activity = activityOf(history, null);
+    expect(activity).toEqual({
+      messageCount: 2,
+      lastActivity: 7,
+      autoTitle: "Plan a trip",
+      title: null
+    });
+    const sessions = [
+      { ...newSession("x", 1), ...activity },
+      { ...newSession("y", 1), title: "Groceries" }
+    ];
+    expect(listSessions(sessions, { query: "TRIP" }).map((s) => s.id)).toEqual([
+      "x"
+    ]);
+    expect(listSessions(sessions, { query: "groc" }).map((s) => s.id)).toEqual([
+      "y"
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Chat } from "../src/chat-do";
+import type { TextMessage } from "../src/shared";
+import {
+  appendMessages,
+  readMessages,
+  readSharedConversation,
+  trashMessages,
+  writeDeletion,
+  writeSettings,
+  writeShare
+} from "../src/storage";
+
+const question: TextMessage = {
+  id: "q",
+  role: "user",
+  content: "Hi",
+  ts: 1
+};
+
+describe("message storage", () => {
+  it("keeps both messages when two appends interleave", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("interleaved-appends"));
+    await runInDurableObject(stub, (_chat, state) => {
+      const sql = state.storage.sql;
+      appendMessages(sql, [question]);
+      // a reply starts streaming from this history…
+      const seen = readMessages(sql);
+      // …while another tab sends a message
+      appendMessages(sql, [
+        { id: "other", role: "user", content: "Still there?", ts: 2 }
+      ]);
+      const [reply] = appendMessages(sql, [
+        { id: "a", role: "assistant", content: "Hello", ts: 3 }
+      ]);
+
+      expect(seen.map((m) => m.id)).toEqual(["q"]);
+      expect(readMessages(sql).map((m) => m.id)).toEqual(["q", "other", "a"]);
+      expect(reply.parentId).toBe("other");
+    });
+  });
+});
+
+describe("ephemeral sessions", () => {
+  it("wipe share copies and deleted messages with the conversation", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("ephemeral-wipe"));
+    await runInDurableObject(stub, async (chat: Chat, state) => {
+      const sql = state.storage.sql;
+      const now = Date.now();
+      writeSettings(sql, { retention: { mode: "ephemeral" } });
+      appendMessages(sql, [
+        question,
+        { id: "a", role: "assistant", content: "Hello", ts: 2 }
+      ]);
+      writeShare(sql, { id: "link", createdAt: now, expiresAt: null }, null, [
+        question
+      ]);
+      trashMessages(sql, "deletion", ["a"]);
+      writeDeletion(sql, {
+        id: "deletion",
+        count: 1,
+        deletedAt: now,
+        purgeAt: now + 60_000
+      });
+      // the prune queued when the last tab closed
+      await state.storage.put("tasks", [
+        { id: "prune", type: "prune", at: now }
+      ]);
+
+      await chat.alarm();
+
+      expect(readMessages(sql)).toEqual([]);
+      expect(readSharedConversation(sql, "link", Date.now())).toBeNull();
+      const { count } = sql
+        .exec<{
+          count: number;
+        }>("SELECT COUNT(*) AS count FROM deleted_messages")
+        .one();
+      expect(count).toBe(0);
+    });
+  });
+});
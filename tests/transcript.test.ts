@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { forkAt, linkParents } from "../src/branches";
+import {
+  TRANSCRIPT_FORMATS,
+  parseTranscript,
+  serializeTranscript,
+  type Transcript
+} from "../src/transcript";
+
+const transcript: Transcript = {
+  version: 1,
+  session: "s-test",
+  exportedAt: Date.UTC(2025, 0, 2),
+  settings: {
+    model: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    systemPrompt: "Be brief.\nUse lists.",
+    persona: null,
+    timeZone: "Europe/Berlin",
+    retention: { mode: "messages", count: 500 }
+  },
+  messages: [
+    { id: "m1", role: "user", content: "What's the weather?", ts: 1 },
+    {
+      id: "m2",
+      role: "tool-call",
+      toolCallId: "t1",
+      toolName: "getWeatherInformation",
+      input: { city: "Berlin" },
+      needsApproval: true,
+      ts: 2
+    },
+    {
+      id: "m3",
+      role: "tool-result",
+      toolCallId: "t1",
+      toolName: "getWeatherInformation",
+      output: "sunny",
+      ts: 3
+    },
+    {
+      id: "m4",
+      role: "assistant",
+      content: "## Sunny\n\nNo comment --> here\n\n",
+      ts: 4,
+      interrupted: true
+    },
+    {
+      id: "m5",
+      role: "assistant",
+      content: "",
+      error: "model unavailable",
+      ts: 5
+    }
+  ],
+  jobs: [
+    {
+      id: "j1",
+      runAt: 5,
+      prompt: "Summarize",
+      status: "pending",
+      createdAt: 1,
+      cron: "0 9 * * 1-5",
+      timeZone: "Europe/Berlin"
+    }
+  ]
+};
+
+describe("transcript", () => {
+  for (const format of TRANSCRIPT_FORMATS) {
+    it(`round-trips through ${format}`, () => {
+      const text = serializeTranscript(transcript, format);
+      expect(parseTranscript(text)).toEqual(transcript);
+    });
+  }
+
+  it("rejects malformed entries with the position of the problem", () => {
+    const broken = {
+      ...transcript,
+      messages: [transcript.messages[0], { id: "x", role: "robot", ts: 1 }]
+    };
+    expect(() => parseTranscript(JSON.stringify(broken))).toThrow(
+      /message 2: unknown role/
+    );
+    expect(() => parseTranscript("hello")).toThrow(/not valid JSON/);
+  });
+
+  it("rejects duplicate message ids", () => {
+    const dup = {
+      ...transcript,
+      messages: [transcript.messages[0], transcript.messages[0]]
+    };
+    expect(() => parseTranscript(JSON.stringify(dup))).toThrow(/duplicate/);
+  });
+
+  it("keeps the branch links of a forked history", () => {
+    const asked = linkParents(
+      [],
+      [
+        { id: "q", role: "user", content: "Hi", ts: 1 },
+        { id: "a1", role: "assistant", content: "Hello", ts: 2 }
+      ]
+    );
+    // the reply was regenerated: the first answer went into a fork
+    const forked = forkAt(asked, [], 1).history;
+    const messages = [
+      ...forked,
+      ...linkParents(forked, [
+        { id: "a2", role: "assistant", content: "Hey", ts: 3 }
+      ])
+    ];
+    const branched = { ...transcript, messages };
+    for (const format of TRANSCRIPT_FORMATS) {
+      const parsed = parseTranscript(serializeTranscript(branched, format));
+      expect(parsed.messages.map((m) => m.parentId)).toEqual([null, "q"]);
+    }
+  });
+
+  it("drops branch links that point outside the transcript", () => {
+    const dangling = {
+      ...transcript,
+      messages: [
+        { id: "a", role: "user", content: "Hi", ts: 1, parentId: "gone" },
+        { id: "b", role: "user", content: "Hi", ts: 2, parentId: "c" },
+        { id: "c", role: "assistant", content: "Hello", ts: 3, parentId: "a" }
+      ]
+    };
+    const parsed = parseTranscript(JSON.stringify(dangling));
+    expect(parsed.messages.map((m) => m.parentId)).toEqual([
+      undefined,
+      undefined,
+      "a"
+    ]);
+  });
+});